@@ -48,10 +48,9 @@ export function resolveWecomAccount(params: {
   const merged = mergeWecomAccountConfig(params.cfg, accountId);
   const enabled = baseEnabled && merged.enabled !== false;
 
+  const mode = merged.mode ?? "bot";
   const token = merged.token?.trim() || undefined;
   const encodingAESKey = merged.encodingAESKey?.trim() || undefined;
-  const receiveId = merged.receiveId?.trim() ?? "";
-  const configured = Boolean(token && encodingAESKey);
 
   // Outbound API credentials
   const corpId = merged.corpId?.trim() || undefined;
@@ -59,11 +58,24 @@ export function resolveWecomAccount(params: {
   const secret = merged.secret?.trim() || undefined;
   const outboundConfigured = Boolean(corpId && agentId && secret);
 
+  // Self-built app callbacks are encrypted with the corpId as receiveId and can only
+  // be answered through the outbound API.
+  const receiveId = merged.receiveId?.trim() ?? (mode === "app" ? corpId ?? "" : "");
+  const botId = merged.botId?.trim() || undefined;
+  const botSecret = merged.botSecret?.trim() || undefined;
+
+  const configured = mode === "app"
+    ? Boolean(token && encodingAESKey && outboundConfigured)
+    : mode === "websocket"
+      ? Boolean(botId && botSecret)
+      : Boolean(token && encodingAESKey);
+
   return {
     accountId,
     name: merged.name?.trim() || undefined,
     enabled,
     configured,
+    mode,
     token,
     encodingAESKey,
     receiveId,
@@ -71,6 +83,8 @@ export function resolveWecomAccount(params: {
     agentId,
     secret,
     outboundConfigured,
+    botId,
+    botSecret,
     config: merged,
   };
 }
@@ -80,4 +94,3 @@ export function listEnabledWecomAccounts(cfg: OpenclawConfig): ResolvedWecomAcco
     .map((accountId) => resolveWecomAccount({ cfg, accountId }))
     .filter((account) => account.enabled);
 }
-
@@ -0,0 +1,168 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import type { ResolvedWecomAccount } from "./types.js";
+import { WecomApiClient, WecomApiError, clearTokenCache, resolveOutboundMediaType } from "./api.js";
+import { withApiStub } from "./test-helpers.js";
+
+function createAccount(apiBaseUrl: string): ResolvedWecomAccount {
+  return {
+    accountId: "default",
+    enabled: true,
+    configured: true,
+    receiveId: "",
+    corpId: "corp-id",
+    agentId: 1000002,
+    secret: "corp-secret",
+    outboundConfigured: true,
+    config: { apiBaseUrl },
+  };
+}
+
+describe("WecomApiClient", () => {
+  afterEach(() => {
+    clearTokenCache();
+  });
+
+  it("sends through the configured base URL and reuses the cached token", async () => {
+    await withApiStub((req) => {
+      if (req.path.endsWith("/gettoken")) return { errcode: 0, access_token: "TOKEN-1", expires_in: 7200 };
+      return { errcode: 0, errmsg: "ok", msgid: "MSG-1" };
+    }, async (baseUrl, requests) => {
+      const client = new WecomApiClient(createAccount(baseUrl));
+      const first = await client.sendText({ target: "alice", text: "hello" });
+      await client.sendText({ target: "wrGROUP", text: "hi group" });
+
+      expect(first.msgid).toBe("MSG-1");
+      expect(requests.map((req) => req.path)).toEqual([
+        "/cgi-bin/gettoken",
+        "/cgi-bin/message/send",
+        "/cgi-bin/appchat/send",
+      ]);
+      expect(requests[1]!.query.get("access_token")).toBe("TOKEN-1");
+      expect(requests[1]!.body).toEqual({
+        touser: "alice",
+        msgtype: "text",
+        agentid: 1000002,
+        text: { content: "hello" },
+        safe: 0,
+      });
+      expect(requests[2]!.body).toMatchObject({ chatid: "wrGROUP", text: { content: "hi group" } });
+    });
+  });
+
+  it("throws WecomApiError for non-zero errcodes", async () => {
+    await withApiStub((req) => {
+      if (req.path.endsWith("/gettoken")) return { errcode: 0, access_token: "TOKEN-1", expires_in: 7200 };
+      return { errcode: 81013, errmsg: "user not found" };
+    }, async (baseUrl) => {
+      const client = new WecomApiClient(createAccount(baseUrl));
+      const error = await client.sendText({ target: "ghost", text: "hello" }).catch((err: unknown) => err);
+      expect(error).toBeInstanceOf(WecomApiError);
+      expect(error).toMatchObject({ errcode: 81013, errmsg: "user not found", path: "message/send" });
+    });
+  });
+
+  it("evicts a rejected token and retries once with a fresh one", async () => {
+    let tokens = 0;
+    await withApiStub((req) => {
+      if (req.path.endsWith("/gettoken")) {
+        tokens += 1;
+        return { errcode: 0, access_token: `TOKEN-${tokens}`, expires_in: 7200 };
+      }
+      if (req.query.get("access_token") === "TOKEN-1") return { errcode: 42001, errmsg: "access_token expired" };
+      return { errcode: 0, errmsg: "ok" };
+    }, async (baseUrl, requests) => {
+      const client = new WecomApiClient(createAccount(baseUrl));
+      await client.sendText({ target: "alice", text: "hello" });
+
+      expect(requests.map((req) => `${req.path}?${req.query.get("access_token") ?? ""}`)).toEqual([
+        "/cgi-bin/gettoken?",
+        "/cgi-bin/message/send?TOKEN-1",
+        "/cgi-bin/gettoken?",
+        "/cgi-bin/message/send?TOKEN-2",
+      ]);
+    });
+  });
+
+  it("gives up after one retry when the fresh token is rejected too", async () => {
+    await withApiStub((req) => {
+      if (req.path.endsWith("/gettoken")) return { errcode: 0, access_token: "TOKEN", expires_in: 7200 };
+      return { errcode: 40014, errmsg: "invalid access_token" };
+    }, async (baseUrl, requests) => {
+      const client = new WecomApiClient(createAccount(baseUrl));
+      await expect(client.sendText({ target: "alice", text: "hello" })).rejects.toMatchObject({ errcode: 40014 });
+      expect(requests.filter((req) => req.path.endsWith("/message/send"))).toHaveLength(2);
+    });
+  });
+
+  it("sends voice and video messages to users and group chats", async () => {
+    await withApiStub((req) => {
+      if (req.path.endsWith("/gettoken")) return { errcode: 0, access_token: "TOKEN", expires_in: 7200 };
+      return { errcode: 0, errmsg: "ok" };
+    }, async (baseUrl, requests) => {
+      const client = new WecomApiClient(createAccount(baseUrl));
+      await client.sendVoice({ target: "alice", mediaId: "VOICE-1" });
+      await client.sendVideo({ target: "wrGROUP", mediaId: "VIDEO-1", title: "demo.mp4", description: "clip" });
+
+      expect(requests[1]!.path).toBe("/cgi-bin/message/send");
+      expect(requests[1]!.body).toMatchObject({ touser: "alice", msgtype: "voice", voice: { media_id: "VOICE-1" } });
+      expect(requests[2]!.path).toBe("/cgi-bin/appchat/send");
+      expect(requests[2]!.body).toMatchObject({
+        chatid: "wrGROUP",
+        msgtype: "video",
+        video: { media_id: "VIDEO-1", title: "demo.mp4", description: "clip" },
+      });
+    });
+  });
+
+  it("sends template cards through message/send and rejects group chats", async () => {
+    await withApiStub((req) => {
+      if (req.path.endsWith("/gettoken")) return { errcode: 0, access_token: "TOKEN", expires_in: 7200 };
+      return { errcode: 0, errmsg: "ok" };
+    }, async (baseUrl, requests) => {
+      const client = new WecomApiClient(createAccount(baseUrl));
+      const card = { card_type: "text_notice" as const, task_id: "task-1", main_title: { title: "构建完成" } };
+      await client.sendTemplateCard({ target: "alice", card });
+      await expect(client.sendTemplateCard({ target: "wrGROUP", card })).rejects.toThrow("app group chats");
+
+      expect(requests.map((req) => req.path)).toEqual(["/cgi-bin/gettoken", "/cgi-bin/message/send"]);
+      expect(requests[1]!.body).toMatchObject({ touser: "alice", msgtype: "template_card", template_card: card });
+    });
+  });
+
+  it("shares one in-flight gettoken request between concurrent calls", async () => {
+    await withApiStub((req) => {
+      if (req.path.endsWith("/gettoken")) return { errcode: 0, access_token: "TOKEN", expires_in: 7200 };
+      return { errcode: 0, errmsg: "ok" };
+    }, async (baseUrl, requests) => {
+      const account = createAccount(baseUrl);
+      await Promise.all([
+        new WecomApiClient(account).sendText({ target: "alice", text: "1" }),
+        new WecomApiClient(account).sendText({ target: "bob", text: "2" }),
+        new WecomApiClient(account).sendText({ target: "carol", text: "3" }),
+      ]);
+      expect(requests.filter((req) => req.path.endsWith("/gettoken"))).toHaveLength(1);
+    });
+  });
+});
+
+describe("resolveOutboundMediaType", () => {
+  const MB = 1024 * 1024;
+
+  it("sends AMR audio within 2 MB as voice", () => {
+    expect(resolveOutboundMediaType({ contentType: "audio/amr", filename: "note.amr", size: MB })).toBe("voice");
+    expect(resolveOutboundMediaType({ filename: "note.amr", size: MB })).toBe("voice");
+  });
+
+  it("falls back to file for non-AMR or oversized voice", () => {
+    expect(resolveOutboundMediaType({ contentType: "audio/mpeg", filename: "song.mp3", size: MB })).toBe("file");
+    expect(resolveOutboundMediaType({ contentType: "audio/amr", filename: "long.amr", size: 3 * MB })).toBe("file");
+  });
+
+  it("limits video to 10 MB", () => {
+    expect(resolveOutboundMediaType({ contentType: "video/mp4", filename: "clip.mp4", size: 5 * MB })).toBe("video");
+    expect(resolveOutboundMediaType({ contentType: "video/mp4", filename: "movie.mp4", size: 11 * MB })).toBe("file");
+    expect(resolveOutboundMediaType({ contentType: "video/quicktime", filename: "clip.mov", size: 5 * MB })).toBe("file");
+    expect(resolveOutboundMediaType({ filename: "clip.webm", size: 5 * MB })).toBe("file");
+  });
+});
@@ -3,21 +3,50 @@
  * 企业微信主动发送消息 API
  */
 
-import type { ResolvedWecomAccount } from "./types.js";
+import crypto from "node:crypto";
 
-const WECOM_API_BASE = "https://qyapi.weixin.qq.com/cgi-bin";
+import type { ResolvedWecomAccount, WecomTemplateCard } from "./types.js";
 
-// Token cache: corpId -> { token, expiresAt }
+const DEFAULT_API_BASE_URL = "https://qyapi.weixin.qq.com/cgi-bin";
+const DEFAULT_TIMEOUT_MS = 10_000;
+const MEDIA_TIMEOUT_MS = 60_000;
+// Refresh tokens 5 minutes before they expire
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Token cache shared by all clients: apiBaseUrl + corpId + secret hash -> { token, expiresAt }
 const tokenCache = new Map<string, { token: string; expiresAt: number }>();
+// In-flight gettoken requests, so concurrent callers share one fetch
+const pendingTokens = new Map<string, Promise<string>>();
 
-export type WecomApiError = {
-  errcode: number;
-  errmsg: string;
-};
+// errcodes meaning the access_token is invalid (40014, 40001) or expired (42001)
+const TOKEN_ERRCODES = new Set([40001, 40014, 42001]);
+
+/**
+ * A WeCom API call that failed with a non-zero errcode or an HTTP error.
+ * HTTP-level failures use errcode -1 and carry the status code.
+ */
+export class WecomApiError extends Error {
+  readonly errcode: number;
+  readonly errmsg: string;
+  readonly path: string;
+  readonly status?: number;
+
+  constructor(params: { path: string; errcode: number; errmsg: string; status?: number }) {
+    super(`WeCom ${params.path} failed: ${params.errcode} ${params.errmsg}`);
+    this.name = "WecomApiError";
+    this.errcode = params.errcode;
+    this.errmsg = params.errmsg;
+    this.path = params.path;
+    this.status = params.status;
+  }
+}
 
-export type WecomTokenResponse = {
+export type WecomApiResponse = {
   errcode?: number;
   errmsg?: string;
+};
+
+export type WecomTokenResponse = WecomApiResponse & {
   access_token?: string;
   expires_in?: number;
 };
@@ -28,316 +57,512 @@ export type WecomSendResponse = {
   msgid?: string;
 };
 
-export type WecomMediaUploadResponse = {
-  errcode?: number;
-  errmsg?: string;
+export type WecomMediaUploadResponse = WecomApiResponse & {
   type?: string;
   media_id?: string;
   created_at?: string;
 };
 
+export type WecomMediaType = "image" | "voice" | "video" | "file";
+
+// Temporary media size limits per type
+// @see https://developer.work.weixin.qq.com/document/path/90253
+export const WECOM_MEDIA_MAX_BYTES: Record<WecomMediaType, number> = {
+  image: 10 * 1024 * 1024,
+  voice: 2 * 1024 * 1024,
+  video: 10 * 1024 * 1024,
+  file: 20 * 1024 * 1024,
+};
+
+// message/send and appchat/send reject text and markdown content over 2048 bytes
+export const WECOM_TEXT_MAX_BYTES = 2048;
+// Group robot webhooks reject text over 2048 bytes and markdown over 4096 bytes
+export const WECOM_GROUP_WEBHOOK_TEXT_MAX_BYTES = 2048;
+export const WECOM_GROUP_WEBHOOK_MARKDOWN_MAX_BYTES = 4096;
+// Group robot image messages only accept JPG/PNG up to 2 MB (before base64)
+export const WECOM_GROUP_WEBHOOK_IMAGE_MAX_BYTES = 2 * 1024 * 1024;
+
+export type WecomGroupWebhookMessage =
+  | { msgtype: "text"; text: { content: string; mentioned_list?: string[] } }
+  | { msgtype: "markdown"; markdown: { content: string } }
+  | { msgtype: "image"; image: { base64: string; md5: string } }
+  | { msgtype: "file"; file: { media_id: string } };
+
+type RequestOptions = {
+  query?: Record<string, string | number>;
+  json?: unknown;
+  form?: { boundary: string; body: Buffer<ArrayBuffer> };
+  timeoutMs?: number;
+  // Append the account's access_token to the query (default true)
+  withToken?: boolean;
+};
+
 /**
- * Get access token for WeCom API
- * Caches token until 5 minutes before expiry
+ * Build the multipart body for media uploads (field name "media")
  */
-export async function getAccessToken(account: ResolvedWecomAccount): Promise<string> {
-  const { corpId, secret } = account;
-  if (!corpId || !secret) {
-    throw new Error("WeCom outbound not configured: missing corpId or secret");
-  }
+function buildMediaFormData(params: {
+  buffer: Buffer;
+  filename: string;
+  contentType?: string;
+}): { boundary: string; body: Buffer<ArrayBuffer> } {
+  const { buffer, filename, contentType } = params;
+  // Create form data manually for Node.js
+  const boundary = `----WebKitFormBoundary${Date.now().toString(16)}`;
+  const mimeType = contentType || getMimeType(filename);
 
-  const cacheKey = `${corpId}:${secret.slice(0, 8)}`;
-  const cached = tokenCache.get(cacheKey);
-  const now = Date.now();
+  const header = Buffer.from(
+    `--${boundary}\r\n` +
+    `Content-Disposition: form-data; name="media"; filename="${filename}"\r\n` +
+    `Content-Type: ${mimeType}\r\n\r\n`
+  );
+  const footer = Buffer.from(`\r\n--${boundary}--\r\n`);
+  return { boundary, body: Buffer.concat([header, buffer, footer]) };
+}
 
-  // Return cached token if still valid (with 5 min buffer)
-  if (cached && cached.expiresAt > now + 5 * 60 * 1000) {
-    return cached.token;
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeout);
   }
+}
 
-  // Fetch new token
-  const url = `${WECOM_API_BASE}/gettoken?corpid=${encodeURIComponent(corpId)}&corpsecret=${encodeURIComponent(secret)}`;
-  const res = await fetch(url);
-  const data = (await res.json()) as WecomTokenResponse;
+/**
+ * One client per account: resolves the API base URL and credentials, caches the
+ * access_token and turns errcode responses into WecomApiError.
+ */
+export class WecomApiClient {
+  readonly apiBaseUrl: string;
+  private readonly corpId?: string;
+  private readonly secret?: string;
+  private readonly agentId?: number;
+
+  constructor(account: ResolvedWecomAccount) {
+    this.apiBaseUrl = (account.config.apiBaseUrl?.trim() || DEFAULT_API_BASE_URL).replace(/\/+$/, "");
+    this.corpId = account.corpId;
+    this.secret = account.secret;
+    this.agentId = account.agentId;
+  }
 
-  if (data.errcode && data.errcode !== 0) {
-    throw new Error(`WeCom gettoken failed: ${data.errcode} ${data.errmsg}`);
+  private get tokenCacheKey(): string {
+    const secretHash = crypto.createHash("md5").update(this.secret ?? "").digest("hex").slice(0, 8);
+    return `${this.apiBaseUrl}|${this.corpId ?? ""}:${secretHash}`;
   }
 
-  if (!data.access_token) {
-    throw new Error("WeCom gettoken returned no access_token");
+  /**
+   * Get access token for WeCom API
+   * Caches token until 5 minutes before expiry
+   * @see https://developer.work.weixin.qq.com/document/path/91039
+   */
+  async getAccessToken(): Promise<string> {
+    const { corpId, secret } = this;
+    if (!corpId || !secret) {
+      throw new Error("WeCom outbound not configured: missing corpId or secret");
+    }
+
+    const cacheKey = this.tokenCacheKey;
+    const cached = tokenCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now() + TOKEN_REFRESH_MARGIN_MS) {
+      return cached.token;
+    }
+
+    const pending = pendingTokens.get(cacheKey);
+    if (pending) return await pending;
+
+    const fetching = this.fetchAccessToken(corpId, secret, cacheKey);
+    pendingTokens.set(cacheKey, fetching);
+    try {
+      return await fetching;
+    } finally {
+      pendingTokens.delete(cacheKey);
+    }
   }
 
-  // Cache token
-  const expiresIn = data.expires_in ?? 7200;
-  tokenCache.set(cacheKey, {
-    token: data.access_token,
-    expiresAt: now + expiresIn * 1000,
-  });
+  private async fetchAccessToken(corpId: string, secret: string, cacheKey: string): Promise<string> {
+    const data = await this.request<WecomTokenResponse>("gettoken", {
+      query: { corpid: corpId, corpsecret: secret },
+      withToken: false,
+    });
+    if (!data.access_token) {
+      throw new WecomApiError({ path: "gettoken", errcode: -1, errmsg: "no access_token in response" });
+    }
+
+    const expiresIn = data.expires_in ?? 7200;
+    tokenCache.set(cacheKey, {
+      token: data.access_token,
+      expiresAt: Date.now() + expiresIn * 1000,
+    });
+    return data.access_token;
+  }
 
-  return data.access_token;
-}
+  /**
+   * Drop the cached access_token so the next call fetches a fresh one
+   */
+  clearAccessToken(): void {
+    tokenCache.delete(this.tokenCacheKey);
+  }
 
-/**
- * Send text message to a user or group
- */
-export async function sendTextMessage(params: {
-  account: ResolvedWecomAccount;
-  target: string; // userId or chatId (group)
-  text: string;
-  isGroup?: boolean;
-}): Promise<WecomSendResponse> {
-  const { account, target, text, isGroup } = params;
-  const token = await getAccessToken(account);
-
-  if (isGroup || target.startsWith("wr")) {
-    // Group chat - use appchat/send API
-    const url = `${WECOM_API_BASE}/appchat/send?access_token=${encodeURIComponent(token)}`;
-    const body = {
-      chatid: target,
-      msgtype: "text",
-      text: { content: text },
-      safe: 0,
-    };
-
-    const res = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body),
-    });
+  private async fetchApi(path: string, options: RequestOptions): Promise<Response> {
+    const params = new URLSearchParams();
+    if (options.withToken !== false) {
+      params.set("access_token", await this.getAccessToken());
+    }
+    for (const [key, value] of Object.entries(options.query ?? {})) {
+      params.set(key, String(value));
+    }
+
+    const init: RequestInit = { method: "GET" };
+    if (options.form) {
+      init.method = "POST";
+      init.headers = {
+        "Content-Type": `multipart/form-data; boundary=${options.form.boundary}`,
+        "Content-Length": options.form.body.length.toString(),
+      };
+      init.body = options.form.body;
+    } else if (options.json !== undefined) {
+      init.method = "POST";
+      init.headers = { "Content-Type": "application/json" };
+      init.body = JSON.stringify(options.json);
+    }
+
+    const query = params.toString();
+    const url = `${this.apiBaseUrl}/${path}${query ? `?${query}` : ""}`;
+    return await fetchWithTimeout(url, init, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  }
 
-    return (await res.json()) as WecomSendResponse;
-  } else {
-    // Direct message - use message/send API
-    const url = `${WECOM_API_BASE}/message/send?access_token=${encodeURIComponent(token)}`;
-    const body = {
-      touser: target,
-      msgtype: "text",
-      agentid: account.agentId,
-      text: { content: text },
-      safe: 0,
-    };
-
-    const res = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body),
+  /**
+   * Run a token-authenticated call; if WeCom reports the token as invalid or expired
+   * (revoked, secret rotated), evict the cached token and retry once with a fresh one.
+   */
+  private async withTokenRetry<T>(options: RequestOptions, call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (err) {
+      if (options.withToken === false || !(err instanceof WecomApiError) || !TOKEN_ERRCODES.has(err.errcode)) {
+        throw err;
+      }
+      this.clearAccessToken();
+      return await call();
+    }
+  }
+
+  private async request<T extends WecomApiResponse>(path: string, options: RequestOptions = {}): Promise<T> {
+    return await this.withTokenRetry(options, async () => {
+      const res = await this.fetchApi(path, options);
+      if (!res.ok) {
+        throw new WecomApiError({ path, errcode: -1, errmsg: `HTTP ${res.status}`, status: res.status });
+      }
+      const data = (await res.json()) as T;
+      if (data.errcode && data.errcode !== 0) {
+        throw new WecomApiError({ path, errcode: data.errcode, errmsg: data.errmsg ?? "" });
+      }
+      return data;
     });
+  }
 
-    return (await res.json()) as WecomSendResponse;
+  /**
+   * Send an application message to a user (message/send) or an app group chat (appchat/send)
+   */
+  private async sendAppMessage(params: {
+    target: string; // userId or chatId (group)
+    isGroup?: boolean;
+    msgtype: string;
+    payload: Record<string, unknown>;
+  }): Promise<WecomSendResponse> {
+    const { target, msgtype, payload } = params;
+    const isGroup = params.isGroup || target.startsWith("wr");
+    const body = isGroup
+      ? { chatid: target, msgtype, [msgtype]: payload, safe: 0 }
+      : { touser: target, msgtype, agentid: this.agentId, [msgtype]: payload, safe: 0 };
+    const data = await this.request<Partial<WecomSendResponse>>(isGroup ? "appchat/send" : "message/send", { json: body });
+    return { errcode: 0, errmsg: data.errmsg ?? "ok", msgid: data.msgid };
   }
-}
 
-/**
- * Upload media file to WeCom
- */
-export async function uploadMedia(params: {
-  account: ResolvedWecomAccount;
-  type: "image" | "voice" | "video" | "file";
-  buffer: Buffer;
-  filename: string;
-  contentType?: string;
-}): Promise<string> {
-  const { account, type, buffer, filename, contentType } = params;
-  const token = await getAccessToken(account);
+  /**
+   * Send text message to a user or group
+   */
+  async sendText(params: { target: string; text: string; isGroup?: boolean }): Promise<WecomSendResponse> {
+    return await this.sendAppMessage({ ...params, msgtype: "text", payload: { content: params.text } });
+  }
 
-  const url = `${WECOM_API_BASE}/media/upload?access_token=${encodeURIComponent(token)}&type=${type}`;
+  /**
+   * Send markdown message (headings, bold, links, inline code, quotes and <font color> only)
+   */
+  async sendMarkdown(params: { target: string; content: string; isGroup?: boolean }): Promise<WecomSendResponse> {
+    return await this.sendAppMessage({ ...params, msgtype: "markdown", payload: { content: params.content } });
+  }
 
-  // Create form data manually for Node.js
-  const boundary = `----WebKitFormBoundary${Date.now().toString(16)}`;
-  const mimeType = contentType || getMimeType(filename);
+  /**
+   * Send image message
+   */
+  async sendImage(params: { target: string; mediaId: string; isGroup?: boolean }): Promise<WecomSendResponse> {
+    return await this.sendAppMessage({ ...params, msgtype: "image", payload: { media_id: params.mediaId } });
+  }
 
-  const header = Buffer.from(
-    `--${boundary}\r\n` +
-    `Content-Disposition: form-data; name="media"; filename="${filename}"\r\n` +
-    `Content-Type: ${mimeType}\r\n\r\n`
-  );
-  const footer = Buffer.from(`\r\n--${boundary}--\r\n`);
-  const body = Buffer.concat([header, buffer, footer]);
+  /**
+   * Send file message
+   */
+  async sendFile(params: { target: string; mediaId: string; isGroup?: boolean }): Promise<WecomSendResponse> {
+    return await this.sendAppMessage({ ...params, msgtype: "file", payload: { media_id: params.mediaId } });
+  }
 
-  const res = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": `multipart/form-data; boundary=${boundary}`,
-      "Content-Length": body.length.toString(),
-    },
-    body,
-  });
+  /**
+   * Send voice message (AMR only, ≤2 MB; see resolveOutboundMediaType)
+   */
+  async sendVoice(params: { target: string; mediaId: string; isGroup?: boolean }): Promise<WecomSendResponse> {
+    return await this.sendAppMessage({ ...params, msgtype: "voice", payload: { media_id: params.mediaId } });
+  }
 
-  const data = (await res.json()) as WecomMediaUploadResponse;
+  /**
+   * Send video message (MP4 only, ≤10 MB; see resolveOutboundMediaType)
+   */
+  async sendVideo(params: {
+    target: string;
+    mediaId: string;
+    title?: string;
+    description?: string;
+    isGroup?: boolean;
+  }): Promise<WecomSendResponse> {
+    const { mediaId, title, description } = params;
+    return await this.sendAppMessage({
+      ...params,
+      msgtype: "video",
+      payload: { media_id: mediaId, title, description },
+    });
+  }
 
-  if (data.errcode && data.errcode !== 0) {
-    throw new Error(`WeCom media upload failed: ${data.errcode} ${data.errmsg}`);
+  /**
+   * Send text card message (for file download links)
+   */
+  async sendTextCard(params: {
+    target: string;
+    title: string;
+    description: string;
+    url: string;
+    btnText?: string;
+    isGroup?: boolean;
+  }): Promise<WecomSendResponse> {
+    const { title, description, url, btnText = "下载文件" } = params;
+    return await this.sendAppMessage({
+      ...params,
+      msgtype: "textcard",
+      payload: { title, description, url, btntxt: btnText },
+    });
   }
 
-  if (!data.media_id) {
-    throw new Error("WeCom media upload returned no media_id");
+  /**
+   * Send a template card to a user. appchat/send does not support template cards,
+   * so group targets are rejected.
+   */
+  async sendTemplateCard(params: { target: string; card: WecomTemplateCard; isGroup?: boolean }): Promise<WecomSendResponse> {
+    const { target, card } = params;
+    if (params.isGroup || target.startsWith("wr")) {
+      throw new Error("template cards cannot be sent to app group chats");
+    }
+    return await this.sendAppMessage({ target, msgtype: "template_card", payload: card });
   }
 
-  return data.media_id;
-}
+  /**
+   * Replace the buttons of a clicked template card with an unclickable label (message/update_template_card).
+   * responseCode comes from the template_card_event callback and can only be used once.
+   */
+  async updateTemplateCardButton(params: {
+    userids: string[];
+    responseCode: string;
+    replaceName: string;
+  }): Promise<void> {
+    const { userids, responseCode, replaceName } = params;
+    await this.request("message/update_template_card", {
+      json: {
+        userids,
+        agentid: this.agentId,
+        response_code: responseCode,
+        button: { replace_name: replaceName },
+      },
+    });
+  }
 
-/**
- * Send image message
- */
-export async function sendImageMessage(params: {
-  account: ResolvedWecomAccount;
-  target: string;
-  mediaId: string;
-  isGroup?: boolean;
-}): Promise<WecomSendResponse> {
-  const { account, target, mediaId, isGroup } = params;
-  const token = await getAccessToken(account);
-
-  if (isGroup || target.startsWith("wr")) {
-    // Group chat
-    const url = `${WECOM_API_BASE}/appchat/send?access_token=${encodeURIComponent(token)}`;
-    const body = {
-      chatid: target,
-      msgtype: "image",
-      image: { media_id: mediaId },
-      safe: 0,
-    };
-
-    const res = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body),
+  /**
+   * Upload media file to WeCom
+   */
+  async uploadMedia(params: {
+    type: WecomMediaType;
+    buffer: Buffer;
+    filename: string;
+    contentType?: string;
+    timeoutMs?: number;
+  }): Promise<string> {
+    const { type, buffer, filename, contentType, timeoutMs = MEDIA_TIMEOUT_MS } = params;
+    const data = await this.request<WecomMediaUploadResponse>("media/upload", {
+      query: { type },
+      form: buildMediaFormData({ buffer, filename, contentType }),
+      timeoutMs,
     });
+    if (!data.media_id) {
+      throw new WecomApiError({ path: "media/upload", errcode: -1, errmsg: "no media_id in response" });
+    }
+    return data.media_id;
+  }
 
-    return (await res.json()) as WecomSendResponse;
-  } else {
-    // Direct message
-    const url = `${WECOM_API_BASE}/message/send?access_token=${encodeURIComponent(token)}`;
-    const body = {
-      touser: target,
-      msgtype: "image",
-      agentid: account.agentId,
-      image: { media_id: mediaId },
-      safe: 0,
-    };
-
-    const res = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body),
+  /**
+   * 下载媒体文件（图片、文件等）
+   * @see https://developer.work.weixin.qq.com/document/path/90254
+   */
+  async downloadMedia(params: {
+    mediaId: string;
+    timeoutMs?: number;
+  }): Promise<{ buffer: Buffer; contentType: string }> {
+    const { mediaId, timeoutMs = MEDIA_TIMEOUT_MS } = params;
+    const options: RequestOptions = { query: { media_id: mediaId }, timeoutMs };
+    return await this.withTokenRetry(options, async () => {
+      const res = await this.fetchApi("media/get", options);
+      const contentType = res.headers.get("content-type") || "";
+
+      // 返回 JSON 说明是错误响应
+      if (contentType.includes("application/json")) {
+        const data = (await res.json()) as WecomApiResponse;
+        throw new WecomApiError({ path: "media/get", errcode: data.errcode ?? -1, errmsg: data.errmsg ?? "unexpected JSON response" });
+      }
+      if (!res.ok) {
+        throw new WecomApiError({ path: "media/get", errcode: -1, errmsg: `HTTP ${res.status}`, status: res.status });
+      }
+
+      return { buffer: Buffer.from(await res.arrayBuffer()), contentType };
     });
+  }
 
-    return (await res.json()) as WecomSendResponse;
+  /**
+   * Send a message through a group robot webhook (群机器人, no corp credentials needed).
+   * Messages always go to the group the robot belongs to.
+   * @see https://developer.work.weixin.qq.com/document/path/91770
+   */
+  async sendGroupWebhookMessage(params: {
+    key: string;
+    message: WecomGroupWebhookMessage;
+  }): Promise<WecomSendResponse> {
+    const data = await this.request<WecomApiResponse>("webhook/send", {
+      query: { key: params.key },
+      json: params.message,
+      withToken: false,
+    });
+    return { errcode: 0, errmsg: data.errmsg ?? "ok" };
   }
-}
 
-/**
- * Send file message
- */
-export async function sendFileMessage(params: {
-  account: ResolvedWecomAccount;
-  target: string;
-  mediaId: string;
-  isGroup?: boolean;
-}): Promise<WecomSendResponse> {
-  const { account, target, mediaId, isGroup } = params;
-  const token = await getAccessToken(account);
-
-  if (isGroup || target.startsWith("wr")) {
-    // Group chat
-    const url = `${WECOM_API_BASE}/appchat/send?access_token=${encodeURIComponent(token)}`;
-    const body = {
-      chatid: target,
-      msgtype: "file",
-      file: { media_id: mediaId },
-      safe: 0,
-    };
-
-    const res = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body),
+  /**
+   * Upload a file for a group robot webhook. The media_id is only valid for that robot.
+   */
+  async uploadGroupWebhookMedia(params: {
+    key: string;
+    type: "file" | "voice";
+    buffer: Buffer;
+    filename: string;
+    contentType?: string;
+  }): Promise<string> {
+    const { key, type, buffer, filename, contentType } = params;
+    const data = await this.request<WecomMediaUploadResponse>("webhook/upload_media", {
+      query: { key, type },
+      form: buildMediaFormData({ buffer, filename, contentType }),
+      timeoutMs: MEDIA_TIMEOUT_MS,
+      withToken: false,
     });
+    if (!data.media_id) {
+      throw new WecomApiError({ path: "webhook/upload_media", errcode: -1, errmsg: "no media_id in response" });
+    }
+    return data.media_id;
+  }
 
-    return (await res.json()) as WecomSendResponse;
-  } else {
-    // Direct message
-    const url = `${WECOM_API_BASE}/message/send?access_token=${encodeURIComponent(token)}`;
-    const body = {
-      touser: target,
-      msgtype: "file",
-      agentid: account.agentId,
-      file: { media_id: mediaId },
-      safe: 0,
-    };
-
-    const res = await fetch(url, {
+  /**
+   * Reply through the callback's response_url (smart bot only, no credentials needed).
+   * The URL is issued per inbound message and stays valid for one hour.
+   * @see https://developer.work.weixin.qq.com/document/path/101138
+   */
+  async sendResponseUrlMessage(params: {
+    responseUrl: string;
+    body: Record<string, unknown>;
+    timeoutMs?: number;
+  }): Promise<WecomSendResponse> {
+    const { responseUrl, body, timeoutMs = DEFAULT_TIMEOUT_MS } = params;
+    const res = await fetchWithTimeout(responseUrl, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(body),
-    });
-
-    return (await res.json()) as WecomSendResponse;
+    }, timeoutMs);
+
+    if (!res.ok) {
+      throw new WecomApiError({ path: "response_url", errcode: -1, errmsg: `HTTP ${res.status}`, status: res.status });
+    }
+
+    const raw = await res.text();
+    const data = raw.trim() ? (JSON.parse(raw) as WecomApiResponse) : {};
+    if (data.errcode && data.errcode !== 0) {
+      throw new WecomApiError({ path: "response_url", errcode: data.errcode, errmsg: data.errmsg ?? "" });
+    }
+    return { errcode: 0, errmsg: data.errmsg ?? "ok" };
   }
 }
 
 /**
- * Send text card message (for file download links)
+ * Pick the message type for an outbound attachment within WeCom's limits:
+ * voice must be AMR and ≤2 MB, video must be MP4 and ≤10 MB, images ≤10 MB. Anything else is sent as a file.
  */
-export async function sendTextCardMessage(params: {
-  account: ResolvedWecomAccount;
-  target: string;
-  title: string;
-  description: string;
-  url: string;
-  btnText?: string;
-  isGroup?: boolean;
-}): Promise<WecomSendResponse> {
-  const { account, target, title, description, url, btnText = "下载文件", isGroup } = params;
-  const token = await getAccessToken(account);
-
-  if (isGroup || target.startsWith("wr")) {
-    // Group chat
-    const apiUrl = `${WECOM_API_BASE}/appchat/send?access_token=${encodeURIComponent(token)}`;
-    const body = {
-      chatid: target,
-      msgtype: "textcard",
-      textcard: {
-        title,
-        description,
-        url,
-        btntxt: btnText,
-      },
-      safe: 0,
-    };
+export function resolveOutboundMediaType(params: {
+  contentType?: string;
+  filename: string;
+  size: number;
+}): WecomMediaType {
+  const { filename, size } = params;
+  const contentType = (params.contentType || getMimeType(filename)).toLowerCase();
+
+  let type: WecomMediaType = "file";
+  if (contentType.startsWith("image/")) {
+    type = "image";
+  } else if (contentType.startsWith("audio/")) {
+    const isAmr = contentType === "audio/amr" || filename.toLowerCase().endsWith(".amr");
+    type = isAmr ? "voice" : "file";
+  } else if (contentType.startsWith("video/")) {
+    const isMp4 = contentType === "video/mp4" || filename.toLowerCase().endsWith(".mp4");
+    type = isMp4 ? "video" : "file";
+  }
 
-    const res = await fetch(apiUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body),
-    });
+  return size <= WECOM_MEDIA_MAX_BYTES[type] ? type : "file";
+}
 
-    return (await res.json()) as WecomSendResponse;
-  } else {
-    // Direct message
-    const apiUrl = `${WECOM_API_BASE}/message/send?access_token=${encodeURIComponent(token)}`;
-    const body = {
-      touser: target,
-      msgtype: "textcard",
-      agentid: account.agentId,
-      textcard: {
-        title,
-        description,
-        url,
-        btntxt: btnText,
-      },
-      safe: 0,
-    };
+/**
+ * Pick the group robot message type for an attachment: JPG/PNG images up to 2 MB are sent
+ * inline, anything else is uploaded through webhook/upload_media and sent as a file.
+ */
+export function resolveGroupWebhookMediaType(params: {
+  contentType?: string;
+  filename: string;
+  size: number;
+}): "image" | "file" {
+  const contentType = (params.contentType || getMimeType(params.filename)).toLowerCase();
+  const isJpgOrPng = contentType === "image/jpeg" || contentType === "image/jpg" || contentType === "image/png";
+  return isJpgOrPng && params.size <= WECOM_GROUP_WEBHOOK_IMAGE_MAX_BYTES ? "image" : "file";
+}
 
-    const res = await fetch(apiUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body),
-    });
+const clients = new WeakMap<ResolvedWecomAccount, WecomApiClient>();
 
-    return (await res.json()) as WecomSendResponse;
+/**
+ * Get the API client for an account (created on first use)
+ */
+export function getWecomApiClient(account: ResolvedWecomAccount): WecomApiClient {
+  let client = clients.get(account);
+  if (!client) {
+    client = new WecomApiClient(account);
+    clients.set(account, client);
   }
+  return client;
+}
+
+/**
+ * 清除所有 access_token 缓存
+ */
+export function clearTokenCache(): void {
+  tokenCache.clear();
+  pendingTokens.clear();
 }
 
 function getMimeType(filename: string): string {
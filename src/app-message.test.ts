@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+
+import { normalizeWecomAppMessage, parseWecomXml } from "./app-message.js";
+
+describe("parseWecomXml", () => {
+  it("reads CDATA and plain leaf values", () => {
+    const fields = parseWecomXml(
+      "<xml><ToUserName><![CDATA[corp]]></ToUserName><Content><![CDATA[a < b & c]]></Content>" +
+        "<CreateTime>1348831860</CreateTime><Label>R&amp;D</Label></xml>",
+    );
+    expect(fields).toEqual({
+      ToUserName: "corp",
+      Content: "a < b & c",
+      CreateTime: "1348831860",
+      Label: "R&D",
+    });
+  });
+});
+
+describe("normalizeWecomAppMessage", () => {
+  it("maps app messages onto the inbound message model", () => {
+    expect(normalizeWecomAppMessage({
+      FromUserName: "alice",
+      MsgType: "text",
+      Content: "hello",
+      MsgId: "42",
+      AgentID: "1000002",
+    })).toEqual({
+      msgid: "42",
+      aibotid: "1000002",
+      chattype: "single",
+      from: { userid: "alice" },
+      msgtype: "text",
+      text: { content: "hello" },
+    });
+
+    expect(normalizeWecomAppMessage({
+      FromUserName: "alice",
+      MsgType: "location",
+      Location_X: "23.134521",
+      Location_Y: "113.358803",
+      Scale: "20",
+      Label: "广州市",
+    })).toMatchObject({
+      msgtype: "location",
+      location: { latitude: 23.134521, longitude: 113.358803, scale: 20, label: "广州市" },
+    });
+
+    expect(normalizeWecomAppMessage({ FromUserName: "alice", MsgType: "event", Event: "enter_agent" }))
+      .toMatchObject({ msgtype: "event", event: { eventtype: "enter_agent" } });
+  });
+
+  it("parses template card events including every selected option", () => {
+    const xml = "<xml><FromUserName><![CDATA[alice]]></FromUserName><MsgType><![CDATA[event]]></MsgType>" +
+      "<Event><![CDATA[template_card_event]]></Event><EventKey><![CDATA[submit]]></EventKey>" +
+      "<TaskId><![CDATA[task-1]]></TaskId><CardType><![CDATA[multiple_interaction]]></CardType>" +
+      "<ResponseCode><![CDATA[CODE]]></ResponseCode><AgentID>1000002</AgentID><SelectedItems>" +
+      "<SelectedItem><QuestionKey><![CDATA[q1]]></QuestionKey><OptionIds><OptionId><![CDATA[a]]></OptionId>" +
+      "<OptionId><![CDATA[b]]></OptionId></OptionIds></SelectedItem>" +
+      "<SelectedItem><QuestionKey><![CDATA[q2]]></QuestionKey><OptionIds><OptionId><![CDATA[c]]></OptionId>" +
+      "</OptionIds></SelectedItem></SelectedItems></xml>";
+
+    expect(normalizeWecomAppMessage(parseWecomXml(xml), xml)).toMatchObject({
+      msgtype: "event",
+      event: {
+        eventtype: "template_card_event",
+        template_card_event: {
+          card_type: "multiple_interaction",
+          event_key: "submit",
+          task_id: "task-1",
+          response_code: "CODE",
+          selected_items: {
+            selected_item: [
+              { question_key: "q1", option_ids: { option_id: ["a", "b"] } },
+              { question_key: "q2", option_ids: { option_id: ["c"] } },
+            ],
+          },
+        },
+      },
+    });
+  });
+
+  it("skips unsupported or anonymous messages", () => {
+    expect(normalizeWecomAppMessage({ FromUserName: "alice", MsgType: "unknown" })).toBeNull();
+    expect(normalizeWecomAppMessage({ MsgType: "text", Content: "hi" })).toBeNull();
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * 自建应用回调消息
+ * 回调使用 XML 格式（外层 <xml><Encrypt>，解密后为明文 XML），
+ * 这里解析后统一转换为智能机器人的入站消息结构，复用同一套处理流程
+ */
+
+import type { WecomInboundMessage, WecomTemplateCardEvent } from "./types.js";
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: "\"",
+  apos: "'",
+};
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity.startsWith("#x") || entity.startsWith("#X")) {
+      return String.fromCodePoint(Number.parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(Number.parseInt(entity.slice(1), 10));
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * 解析企业微信回调 XML，返回叶子节点的 标签名 -> 文本 映射
+ * 回调 XML 结构扁平；嵌套节点（如 SendLocationInfo）的子节点同样被展开到顶层
+ */
+export function parseWecomXml(xml: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  const pattern = /<([A-Za-z_][\w.-]*)>\s*(?:<!\[CDATA\[([\s\S]*?)\]\]>|([^<]*))\s*<\/\1>/g;
+  for (const match of xml.matchAll(pattern)) {
+    const [, tag, cdata, text] = match;
+    if (!tag || tag in fields) continue;
+    fields[tag] = cdata ?? decodeXmlEntities(text ?? "").trim();
+  }
+  return fields;
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * 解析模板卡片事件中的 SelectedItems（可能包含多个 SelectedItem / OptionId，无法用扁平字段表示）
+ */
+function parseSelectedItems(xml: string): NonNullable<WecomTemplateCardEvent["selected_items"]> {
+  const items = [...xml.matchAll(/<SelectedItem>([\s\S]*?)<\/SelectedItem>/g)].map(([, item = ""]) => {
+    const fields = parseWecomXml(item);
+    const optionIds = [...item.matchAll(/<OptionId>\s*(?:<!\[CDATA\[([\s\S]*?)\]\]>|([^<]*))\s*<\/OptionId>/g)]
+      .map(([, cdata, text]) => cdata ?? decodeXmlEntities(text ?? "").trim());
+    return { question_key: fields.QuestionKey, option_ids: { option_id: optionIds } };
+  });
+  return { selected_item: items };
+}
+
+/**
+ * 将自建应用的明文 XML 字段转换为入站消息
+ * 传入原始 XML 时可解析模板卡片事件的选项
+ * @returns 不支持的消息类型返回 null
+ */
+export function normalizeWecomAppMessage(fields: Record<string, string>, xml?: string): WecomInboundMessage | null {
+  const msgtype = fields.MsgType?.trim().toLowerCase();
+  const userid = fields.FromUserName?.trim();
+  if (!msgtype || !userid) return null;
+
+  const base = {
+    msgid: fields.MsgId?.trim() || undefined,
+    aibotid: fields.AgentID?.trim() || undefined,
+    chattype: "single" as const,
+    from: { userid },
+  };
+
+  switch (msgtype) {
+    case "text":
+      return { ...base, msgtype: "text", text: { content: fields.Content ?? "" } };
+    case "image":
+      return {
+        ...base,
+        msgtype: "image",
+        image: { url: fields.PicUrl?.trim() || undefined, media_id: fields.MediaId?.trim() || undefined },
+      };
+    case "voice":
+      return {
+        ...base,
+        msgtype: "voice",
+        voice: {
+          // 开启语音识别后企业微信会附带识别结果
+          content: fields.Recognition?.trim() || undefined,
+          media_id: fields.MediaId?.trim() || undefined,
+          format: fields.Format?.trim() || undefined,
+        },
+      };
+    case "video":
+      return {
+        ...base,
+        msgtype: "video",
+        video: { media_id: fields.MediaId?.trim() || undefined, thumb_media_id: fields.ThumbMediaId?.trim() || undefined },
+      };
+    case "location":
+      return {
+        ...base,
+        msgtype: "location",
+        location: {
+          latitude: toNumber(fields.Location_X),
+          longitude: toNumber(fields.Location_Y),
+          scale: toNumber(fields.Scale),
+          label: fields.Label?.trim() || undefined,
+        },
+      };
+    case "link":
+      return {
+        ...base,
+        msgtype: "link",
+        link: {
+          title: fields.Title?.trim() || undefined,
+          description: fields.Description?.trim() || undefined,
+          url: fields.Url?.trim() || undefined,
+          pic_url: fields.PicUrl?.trim() || undefined,
+        },
+      };
+    case "event":
+      if (fields.Event?.trim().toLowerCase() === "template_card_event") {
+        return {
+          ...base,
+          msgtype: "event",
+          event: {
+            eventtype: "template_card_event",
+            template_card_event: {
+              card_type: fields.CardType?.trim() || undefined,
+              event_key: fields.EventKey?.trim() || undefined,
+              task_id: fields.TaskId?.trim() || undefined,
+              response_code: fields.ResponseCode?.trim() || undefined,
+              selected_items: xml ? parseSelectedItems(xml) : undefined,
+            },
+          },
+        };
+      }
+      return {
+        ...base,
+        msgtype: "event",
+        event: { eventtype: fields.Event?.trim() ?? "", event_key: fields.EventKey?.trim() || undefined },
+      };
+    default:
+      return null;
+  }
+}
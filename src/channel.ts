@@ -11,11 +11,23 @@ import {
   setAccountEnabledInConfigSection,
 } from "openclaw/plugin-sdk";
 
-import { listWecomAccountIds, resolveDefaultWecomAccountId, resolveWecomAccount } from "./accounts.js";
+import {
+  listWecomAccountIds,
+  resolveDefaultWecomAccountId,
+  resolveWecomAccount,
+} from "./accounts.js";
 import { wecomConfigSchema } from "./config-schema.js";
+import { addWecomAllowFromEntry, normalizeWecomAllowEntry } from "./dm-policy.js";
 import type { ResolvedWecomAccount } from "./types.js";
 import { registerWecomWebhookTarget } from "./monitor.js";
-import { sendTextMessage, uploadMedia, sendImageMessage, sendFileMessage } from "./api.js";
+import { startWecomWebsocket } from "./websocket.js";
+import { getWecomMediaCache, uploadMediaWithCache } from "./media-cache.js";
+import { getWecomRuntime, resolveWecomStateDir } from "./runtime.js";
+import { createFileStreamStore, resolveStreamStorePath } from "./stream-store.js";
+import { createFileFeedbackLog, resolveFeedbackLogPath } from "./feedback-log.js";
+import { sendAppText } from "./format.js";
+import { getWecomApiClient, resolveOutboundMediaType } from "./api.js";
+import { resolveWecomGroupWebhookKey, sendGroupWebhookMedia, sendGroupWebhookText } from "./group-webhook.js";
 import { readFile } from "node:fs/promises";
 
 const meta = {
@@ -30,6 +42,9 @@ const meta = {
   quickstartAllowFrom: true,
 };
 
+const OUTBOUND_NOT_CONFIGURED_MESSAGE =
+  "WeCom outbound not configured: missing corpId, agentId, or secret (or groupWebhookKey) in config.";
+
 function normalizeWecomMessagingTarget(raw: string): string | undefined {
   const trimmed = raw.trim();
   if (!trimmed) return undefined;
@@ -98,10 +113,30 @@ export const wecomPlugin: ChannelPlugin<ResolvedWecomAccount> = {
         policyPath: `${basePath}dm.policy`,
         allowFromPath: `${basePath}dm.allowFrom`,
         approveHint: formatPairingApproveHint("wecom"),
-        normalizeEntry: (raw) => raw.trim().toLowerCase(),
+        normalizeEntry: normalizeWecomAllowEntry,
       };
     },
   },
+  pairing: {
+    idLabel: "wecomUserId",
+    normalizeAllowEntry: normalizeWecomAllowEntry,
+    notifyApproval: async ({ cfg, id, accountId }) => {
+      const resolvedAccountId = accountId ?? resolveDefaultWecomAccountId(cfg as OpenclawConfig);
+      // Persist the approval into dm.allowFrom so it survives pairing-store resets.
+      const core = getWecomRuntime();
+      await core.config.writeConfigFile(
+        addWecomAllowFromEntry({ cfg: core.config.loadConfig(), accountId: resolvedAccountId, entry: id }),
+      );
+
+      const account = resolveWecomAccount({ cfg: cfg as OpenclawConfig, accountId: resolvedAccountId });
+      if (account.outboundConfigured) {
+        await getWecomApiClient(account).sendText({
+          target: normalizeWecomAllowEntry(id),
+          text: "✅ 已通过验证，现在可以开始对话了。",
+        });
+      }
+    },
+  },
   groups: {
     // WeCom bots are usually mention-gated by the platform in groups already.
     resolveRequireMention: () => true,
@@ -121,38 +156,57 @@ export const wecomPlugin: ChannelPlugin<ResolvedWecomAccount> = {
     chunkerMode: "text",
     textChunkLimit: 20480,
     sendText: async ({ account, target, text }) => {
-      // Check if outbound is configured
-      if (!account.outboundConfigured) {
-        return {
-          channel: "wecom",
-          ok: false,
-          messageId: "",
-          error: new Error("WeCom outbound not configured: missing corpId, agentId, or secret in config."),
-        };
-      }
-
       try {
-        const isGroup = target.startsWith("wr");
-        const result = await sendTextMessage({
-          account,
+        // Group robot webhook needs no corp credentials
+        const webhookKey = resolveWecomGroupWebhookKey(account, target);
+
+        // Check if outbound is configured
+        if (!webhookKey && !account.outboundConfigured) {
+          return {
+            channel: "wecom",
+            ok: false,
+            messageId: "",
+            error: new Error(OUTBOUND_NOT_CONFIGURED_MESSAGE),
+          };
+        }
+
+        const client = getWecomApiClient(account);
+        if (webhookKey) {
+          // Long text goes out as several robot messages; stop at the first failure
+          await sendGroupWebhookText({
+            client,
+            key: webhookKey,
+            text,
+            sequenceMarkers: account.config.textSequenceMarkers ?? true,
+          });
+          // The robot webhook returns no msgid
+          return { channel: "wecom", ok: true, messageId: "" };
+        }
+
+        // Text over 2048 bytes goes out as several messages; report the first failed chunk
+        const result = await sendAppText({
+          client,
           target,
           text,
-          isGroup,
+          isGroup: target.startsWith("wr"),
+          sequenceMarkers: account.config.textSequenceMarkers ?? true,
         });
-
-        if (result.errcode !== 0) {
+        const [failed] = result.errors;
+        if (failed) {
           return {
             channel: "wecom",
             ok: false,
-            messageId: "",
-            error: new Error(`WeCom send failed: ${result.errcode} ${result.errmsg}`),
+            messageId: result.msgids[0] ?? "",
+            error: new Error(
+              `${result.errors.length}/${result.total} text chunks failed, first at chunk ${failed.index + 1}: ${String(failed.error)}`,
+            ),
           };
         }
 
         return {
           channel: "wecom",
           ok: true,
-          messageId: result.msgid ?? "",
+          messageId: result.msgids[0] ?? "",
         };
       } catch (err) {
         return {
@@ -164,17 +218,19 @@ export const wecomPlugin: ChannelPlugin<ResolvedWecomAccount> = {
       }
     },
     sendMedia: async ({ account, target, filePath, buffer, mimeType, filename }) => {
-      // Check if outbound is configured
-      if (!account.outboundConfigured) {
-        return {
-          channel: "wecom",
-          ok: false,
-          messageId: "",
-          error: new Error("WeCom outbound not configured: missing corpId, agentId, or secret in config."),
-        };
-      }
-
       try {
+        const webhookKey = resolveWecomGroupWebhookKey(account, target);
+
+        // Check if outbound is configured
+        if (!webhookKey && !account.outboundConfigured) {
+          return {
+            channel: "wecom",
+            ok: false,
+            messageId: "",
+            error: new Error(OUTBOUND_NOT_CONFIGURED_MESSAGE),
+          };
+        }
+
         // Read file if buffer not provided
         let fileBuffer = buffer;
         let finalFilename = filename ?? "file";
@@ -192,15 +248,31 @@ export const wecomPlugin: ChannelPlugin<ResolvedWecomAccount> = {
           };
         }
 
-        // Determine media type from mimeType
-        const isImage = mimeType?.startsWith("image/");
-        const isVoice = mimeType?.startsWith("audio/");
-        const isVideo = mimeType?.startsWith("video/");
-        const mediaType = isImage ? "image" : isVoice ? "voice" : isVideo ? "video" : "file";
+        const client = getWecomApiClient(account);
 
-        // Upload media
-        const mediaId = await uploadMedia({
-          account,
+        if (webhookKey) {
+          // Robot webhook: small JPG/PNG images inline as base64, everything else via upload_media
+          await sendGroupWebhookMedia({
+            client,
+            key: webhookKey,
+            buffer: fileBuffer,
+            filename: finalFilename,
+            contentType: mimeType,
+          });
+          return { channel: "wecom", ok: true, messageId: "" };
+        }
+
+        // Voice/video that don't meet WeCom's format or size limits are sent as files
+        const mediaType = resolveOutboundMediaType({
+          contentType: mimeType,
+          filename: finalFilename,
+          size: fileBuffer.length,
+        });
+
+        // Upload media (reuses the media_id of identical content uploaded within its validity)
+        const mediaId = await uploadMediaWithCache({
+          client,
+          cache: getWecomMediaCache(account.accountId),
           type: mediaType,
           buffer: fileBuffer,
           filename: finalFilename,
@@ -210,20 +282,14 @@ export const wecomPlugin: ChannelPlugin<ResolvedWecomAccount> = {
         // Send media message
         const isGroup = target.startsWith("wr");
         let result;
-
-        if (isImage) {
-          result = await sendImageMessage({ account, target, mediaId, isGroup });
+        if (mediaType === "image") {
+          result = await client.sendImage({ target, mediaId, isGroup });
+        } else if (mediaType === "voice") {
+          result = await client.sendVoice({ target, mediaId, isGroup });
+        } else if (mediaType === "video") {
+          result = await client.sendVideo({ target, mediaId, title: finalFilename, isGroup });
         } else {
-          result = await sendFileMessage({ account, target, mediaId, isGroup });
-        }
-
-        if (result.errcode !== 0) {
-          return {
-            channel: "wecom",
-            ok: false,
-            messageId: "",
-            error: new Error(`WeCom send media failed: ${result.errcode} ${result.errmsg}`),
-          };
+          result = await client.sendFile({ target, mediaId, isGroup });
         }
 
         return {
@@ -258,6 +324,9 @@ export const wecomPlugin: ChannelPlugin<ResolvedWecomAccount> = {
       lastError: snapshot.lastError ?? null,
       lastInboundAt: snapshot.lastInboundAt ?? null,
       lastOutboundAt: snapshot.lastOutboundAt ?? null,
+      replayRejections: snapshot.replayRejections ?? 0,
+      feedbackLikes: snapshot.feedbackLikes ?? 0,
+      feedbackDislikes: snapshot.feedbackDislikes ?? 0,
       probe: snapshot.probe,
       lastProbeAt: snapshot.lastProbeAt ?? null,
     }),
@@ -274,6 +343,11 @@ export const wecomPlugin: ChannelPlugin<ResolvedWecomAccount> = {
       lastError: runtime?.lastError ?? null,
       lastInboundAt: runtime?.lastInboundAt ?? null,
       lastOutboundAt: runtime?.lastOutboundAt ?? null,
+      replayRejections: runtime?.replayRejections ?? 0,
+      lastReplayRejectedAt: runtime?.lastReplayRejectedAt ?? null,
+      feedbackLikes: runtime?.feedbackLikes ?? 0,
+      feedbackDislikes: runtime?.feedbackDislikes ?? 0,
+      lastFeedbackAt: runtime?.lastFeedbackAt ?? null,
       dmPolicy: account.config.dm?.policy ?? "pairing",
     }),
   },
@@ -285,6 +359,35 @@ export const wecomPlugin: ChannelPlugin<ResolvedWecomAccount> = {
         ctx.setStatus({ accountId: account.accountId, running: false, configured: false });
         return { stop: () => {} };
       }
+      const stateDir = resolveWecomStateDir(ctx.cfg as OpenclawConfig);
+      getWecomMediaCache(account.accountId, ctx.cfg as OpenclawConfig);
+      const feedbackLog = createFileFeedbackLog(resolveFeedbackLogPath(stateDir, account.accountId));
+      if (account.mode === "websocket") {
+        const connection = startWecomWebsocket({
+          account,
+          config: ctx.cfg as OpenclawConfig,
+          runtime: ctx.runtime,
+          statusSink: (patch) => ctx.setStatus({ accountId: ctx.accountId, ...patch }),
+          feedbackLog,
+        });
+        ctx.log?.info(`[${account.accountId}] wecom websocket connection started`);
+        ctx.setStatus({
+          accountId: account.accountId,
+          running: true,
+          configured: true,
+          lastStartAt: Date.now(),
+        });
+        return {
+          stop: () => {
+            connection.stop();
+            ctx.setStatus({
+              accountId: account.accountId,
+              running: false,
+              lastStopAt: Date.now(),
+            });
+          },
+        };
+      }
       const path = (account.config.webhookPath ?? "/wecom").trim();
       const unregister = registerWecomWebhookTarget({
         account,
@@ -295,6 +398,10 @@ export const wecomPlugin: ChannelPlugin<ResolvedWecomAccount> = {
         core: {} as PluginRuntime,
         path,
         statusSink: (patch) => ctx.setStatus({ accountId: ctx.accountId, ...patch }),
+        streamStore: createFileStreamStore(
+          resolveStreamStorePath(stateDir, account.accountId),
+        ),
+        feedbackLog,
       });
       ctx.log?.info(`[${account.accountId}] wecom webhook registered at ${path}`);
       ctx.setStatus({
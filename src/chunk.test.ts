@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+
+import { splitTextByUtf8Bytes, utf8ByteLength } from "./chunk.js";
+
+describe("splitTextByUtf8Bytes", () => {
+  it("keeps short text as a single chunk", () => {
+    expect(splitTextByUtf8Bytes("  hello  ", 100)).toEqual(["hello"]);
+    expect(splitTextByUtf8Bytes("   ", 100)).toEqual([]);
+  });
+
+  it("splits on paragraph boundaries", () => {
+    const text = ["a".repeat(40), "b".repeat(40), "c".repeat(40)].join("\n\n");
+    expect(splitTextByUtf8Bytes(text, 90)).toEqual([
+      `${"a".repeat(40)}\n\n${"b".repeat(40)}`,
+      "c".repeat(40),
+    ]);
+  });
+
+  it("keeps code fences intact and re-opens them when a fence must be split", () => {
+    const code = ["```ts", ...Array.from({ length: 6 }, (_, i) => `const v${i} = ${i};`), "```"].join("\n");
+    const chunks = splitTextByUtf8Bytes(`intro\n\n${code}`, 60);
+    expect(chunks[0]).toBe("intro");
+    for (const chunk of chunks.slice(1)) {
+      expect(chunk.startsWith("```ts\n")).toBe(true);
+      expect(chunk.endsWith("\n```")).toBe(true);
+      expect(utf8ByteLength(chunk)).toBeLessThanOrEqual(60);
+    }
+    expect(chunks.slice(1).join("\n").match(/const v\d/g)).toHaveLength(6);
+  });
+
+  it("never splits multi-byte characters", () => {
+    const text = "中文字符".repeat(20);
+    const chunks = splitTextByUtf8Bytes(text, 10);
+    for (const chunk of chunks) {
+      expect(utf8ByteLength(chunk)).toBeLessThanOrEqual(10);
+      expect(chunk).not.toContain("�");
+    }
+    expect(chunks.join("")).toBe(text);
+  });
+
+  it("prefixes sequence markers within the byte limit", () => {
+    const text = Array.from({ length: 5 }, (_, i) => `第${i}段${"内容".repeat(10)}`).join("\n\n");
+    const chunks = splitTextByUtf8Bytes(text, 80, { sequenceMarkers: true });
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk, index) => {
+      expect(chunk.startsWith(`(${index + 1}/${chunks.length})\n`)).toBe(true);
+      expect(utf8ByteLength(chunk)).toBeLessThanOrEqual(80);
+    });
+    expect(splitTextByUtf8Bytes("short", 80, { sequenceMarkers: true })).toEqual(["short"]);
+  });
+
+  it("re-splits when the marker for a two-digit total needs more room", () => {
+    const text = Array.from({ length: 10 }, () => "x".repeat(20)).join("\n\n");
+    const chunks = splitTextByUtf8Bytes(text, 28, { sequenceMarkers: true });
+    expect(chunks[0]).toMatch(/^\(1\/\d+\)\n/);
+    for (const chunk of chunks) {
+      expect(utf8ByteLength(chunk)).toBeLessThanOrEqual(28);
+    }
+    expect(chunks.map((chunk) => chunk.replace(/^\(\d+\/\d+\)\n/, "")).join("")).toBe("x".repeat(200));
+  });
+});
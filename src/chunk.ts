@@ -0,0 +1,200 @@
+/**
+ * 按 UTF-8 字节数切分文本
+ * 优先在段落（空行）边界切分，代码块整体保留；超长代码块按行切分并补全围栏，
+ * 超长单行按字符切分，保证不会截断多字节字符
+ */
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+type TextBlock = {
+  text: string;
+  fence?: { open: string; close: string };
+};
+
+export function utf8ByteLength(text: string): number {
+  return Buffer.byteLength(text, "utf8");
+}
+
+/**
+ * 将文本拆分为段落块，围栏代码块（含内部空行）作为一个整体
+ */
+function splitBlocks(text: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  let paragraph: string[] = [];
+  let fenceLines: string[] | null = null;
+  let fenceMarker = "";
+
+  const flushParagraph = () => {
+    const joined = paragraph.join("\n").trim();
+    if (joined) blocks.push({ text: joined });
+    paragraph = [];
+  };
+
+  for (const line of lines) {
+    if (fenceLines) {
+      fenceLines.push(line);
+      if (line.trim().startsWith(fenceMarker)) {
+        blocks.push({
+          text: fenceLines.join("\n"),
+          fence: { open: fenceLines[0]!.trim(), close: fenceMarker },
+        });
+        fenceLines = null;
+      }
+      continue;
+    }
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      flushParagraph();
+      fenceMarker = fence[1]!;
+      fenceLines = [line];
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+    paragraph.push(line);
+  }
+
+  if (fenceLines) {
+    // 未闭合的代码块：补全围栏
+    blocks.push({
+      text: `${fenceLines.join("\n")}\n${fenceMarker}`,
+      fence: { open: fenceLines[0]!.trim(), close: fenceMarker },
+    });
+  }
+  flushParagraph();
+  return blocks;
+}
+
+/**
+ * 按字符切分单行，保证每段不超过 maxBytes 且不截断多字节字符
+ */
+function splitHard(text: string, maxBytes: number): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of text) {
+    const charBytes = utf8ByteLength(char);
+    if (currentBytes + charBytes > maxBytes && current) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+/**
+ * 按行打包，单行超长时再按字符切分
+ */
+function splitLines(lines: string[], maxBytes: number): string[] {
+  const parts: string[] = [];
+  let current: string[] = [];
+  let currentBytes = 0;
+
+  for (const line of lines) {
+    const lineBytes = utf8ByteLength(line);
+    const separatorBytes = current.length > 0 ? 1 : 0;
+    if (currentBytes + separatorBytes + lineBytes <= maxBytes) {
+      current.push(line);
+      currentBytes += separatorBytes + lineBytes;
+      continue;
+    }
+    if (current.length > 0) {
+      parts.push(current.join("\n"));
+      current = [];
+      currentBytes = 0;
+    }
+    if (lineBytes <= maxBytes) {
+      current.push(line);
+      currentBytes = lineBytes;
+    } else {
+      parts.push(...splitHard(line, maxBytes));
+    }
+  }
+  if (current.length > 0) parts.push(current.join("\n"));
+  return parts;
+}
+
+/**
+ * 切分超过上限的单个块
+ */
+function splitOversizedBlock(block: TextBlock, maxBytes: number): string[] {
+  if (!block.fence) {
+    return splitLines(block.text.split("\n"), maxBytes);
+  }
+
+  // 代码块：去掉首尾围栏后按行切分，每段重新包上围栏
+  const { open, close } = block.fence;
+  const wrapperBytes = utf8ByteLength(open) + utf8ByteLength(close) + 2;
+  const body = block.text.split("\n").slice(1, -1);
+  if (wrapperBytes >= maxBytes) {
+    return splitLines(body, maxBytes);
+  }
+  return splitLines(body, maxBytes - wrapperBytes).map((part) => `${open}\n${part}\n${close}`);
+}
+
+function splitChunks(text: string, maxBytes: number): string[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (utf8ByteLength(trimmed) <= maxBytes) return [trimmed];
+
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const block of splitBlocks(trimmed)) {
+    const candidate = current ? `${current}\n\n${block.text}` : block.text;
+    if (utf8ByteLength(candidate) <= maxBytes) {
+      current = candidate;
+      continue;
+    }
+    if (current) {
+      chunks.push(current);
+      current = "";
+    }
+    if (utf8ByteLength(block.text) <= maxBytes) {
+      current = block.text;
+    } else {
+      chunks.push(...splitOversizedBlock(block, maxBytes));
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+function formatSequenceMarker(index: number, total: number): string {
+  return `(${index}/${total})\n`;
+}
+
+/**
+ * 将文本切分为若干段，每段 UTF-8 字节数不超过 maxBytes
+ * sequenceMarkers 为 true 且切分为多段时，每段开头加上 `(1/3)` 序号（计入字节上限）
+ */
+export function splitTextByUtf8Bytes(
+  text: string,
+  maxBytes: number,
+  options: { sequenceMarkers?: boolean } = {},
+): string[] {
+  if (maxBytes <= 0) throw new Error("maxBytes must be positive");
+  const chunks = splitChunks(text, maxBytes);
+  if (!options.sequenceMarkers || chunks.length <= 1) return chunks;
+
+  // 为序号预留空间后重新切分；段数位数增加时按新的段数再预留
+  let total = chunks.length;
+  for (;;) {
+    const reserved = utf8ByteLength(formatSequenceMarker(total, total));
+    if (reserved >= maxBytes) return chunks;
+    const marked = splitChunks(text, maxBytes - reserved);
+    if (String(marked.length).length <= String(total).length) {
+      return marked.map((chunk, index) => `${formatSequenceMarker(index + 1, marked.length)}${chunk}`);
+    }
+    total = marked.length;
+  }
+}
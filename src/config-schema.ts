@@ -13,21 +13,50 @@ const dmSchema = {
   additionalProperties: false,
 };
 
+const queueSchema = {
+  type: "object",
+  properties: {
+    mode: { type: "string", enum: ["serialize", "merge", "interrupt"] },
+  },
+  additionalProperties: false,
+};
+
 const accountSchema = {
   type: "object",
   properties: {
     name: { type: "string" },
     enabled: { type: "boolean" },
+    mode: { type: "string", enum: ["bot", "app", "websocket"] },
     webhookPath: { type: "string" },
     token: { type: "string" },
     encodingAESKey: { type: "string" },
     receiveId: { type: "string" },
     welcomeText: { type: "string" },
+    replayWindowSeconds: { type: "number", minimum: 0 },
     dm: dmSchema,
+    queue: queueSchema,
     // 出站 API 凭证（用于主动发送消息）
     corpId: { type: "string" },
     agentId: { type: "number" },
     secret: { type: "string" },
+    apiBaseUrl: { type: "string" },
+    maxFileSizeMb: { type: "number", minimum: 0 },
+    // 下载回复中链接的主机白名单（允许内网地址）和黑名单
+    downloadAllowHosts: { type: "array", items: { type: "string" } },
+    downloadDenyHosts: { type: "array", items: { type: "string" } },
+    // 主动消息分段发送时是否加上 (1/3) 序号
+    textSequenceMarkers: { type: "boolean" },
+    // 群机器人 webhook key（无需企业凭证即可向群发送消息）
+    groupWebhookKey: { type: "string" },
+    groupWebhookKeys: {
+      type: "object",
+      additionalProperties: { type: "string" },
+    },
+    // 长连接模式凭证
+    botId: { type: "string" },
+    botSecret: { type: "string" },
+    websocketUrl: { type: "string" },
+    heartbeatSeconds: { type: "number", minimum: 1 },
   },
   additionalProperties: false,
 };
@@ -39,12 +68,15 @@ export const wecomConfigSchema: ChannelConfigSchema = {
     properties: {
       name: { type: "string" },
       enabled: { type: "boolean" },
+      mode: { type: "string", enum: ["bot", "app", "websocket"] },
       webhookPath: { type: "string" },
       token: { type: "string" },
       encodingAESKey: { type: "string" },
       receiveId: { type: "string" },
       welcomeText: { type: "string" },
+      replayWindowSeconds: { type: "number", minimum: 0 },
       dm: dmSchema,
+      queue: queueSchema,
       defaultAccount: { type: "string" },
       accounts: {
         type: "object",
@@ -54,6 +86,24 @@ export const wecomConfigSchema: ChannelConfigSchema = {
       corpId: { type: "string" },
       agentId: { type: "number" },
       secret: { type: "string" },
+      apiBaseUrl: { type: "string" },
+      maxFileSizeMb: { type: "number", minimum: 0 },
+      // 下载回复中链接的主机白名单（允许内网地址）和黑名单
+      downloadAllowHosts: { type: "array", items: { type: "string" } },
+      downloadDenyHosts: { type: "array", items: { type: "string" } },
+      // 主动消息分段发送时是否加上 (1/3) 序号
+      textSequenceMarkers: { type: "boolean" },
+      // 群机器人 webhook key（无需企业凭证即可向群发送消息）
+      groupWebhookKey: { type: "string" },
+      groupWebhookKeys: {
+        type: "object",
+        additionalProperties: { type: "string" },
+      },
+      // 长连接模式凭证
+      botId: { type: "string" },
+      botSecret: { type: "string" },
+      websocketUrl: { type: "string" },
+      heartbeatSeconds: { type: "number", minimum: 1 },
     },
     additionalProperties: false,
   },
@@ -1,6 +1,13 @@
 import { describe, expect, it } from "vitest";
 
-import { computeWecomMsgSignature, decryptWecomEncrypted, encryptWecomPlaintext } from "./crypto.js";
+import {
+  computeWecomMsgSignature,
+  decryptWecomEncrypted,
+  decryptWecomMedia,
+  encryptWecomPlaintext,
+  verifyWecomSignature,
+} from "./crypto.js";
+import { encryptWecomMedia } from "./test-helpers.js";
 
 describe("wecom crypto", () => {
   it("round-trips plaintext", () => {
@@ -29,4 +36,22 @@ describe("wecom crypto", () => {
     });
     expect(sig).toMatch(/^[a-f0-9]{40}$/);
   });
+
+  it("verifies signatures and rejects mismatches", () => {
+    const params = { token: "token", timestamp: "123", nonce: "456", encrypt: "ENCRYPT" };
+    const signature = computeWecomMsgSignature(params);
+    expect(verifyWecomSignature({ ...params, signature })).toBe(true);
+    expect(verifyWecomSignature({ ...params, signature: "0".repeat(40) })).toBe(false);
+    expect(verifyWecomSignature({ ...params, signature: "short" })).toBe(false);
+  });
+
+  it("round-trips media payloads", () => {
+    const encodingAESKey = "abcdefghijklmnopqrstuvwxyz0123456789ABCDEFG";
+    for (const size of [0, 1, 32, 1000]) {
+      const data = Buffer.alloc(size, 7);
+      const encrypted = encryptWecomMedia({ encodingAESKey, data });
+      expect(encrypted.length % 32).toBe(0);
+      expect(decryptWecomMedia({ encodingAESKey, data: encrypted })).toEqual(data);
+    }
+  });
 });
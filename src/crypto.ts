@@ -69,7 +69,11 @@ export function verifyWecomSignature(params: {
     nonce: params.nonce,
     encrypt: params.encrypt,
   });
-  return expected === params.signature;
+  // 定长比较，避免通过响应耗时逐字节猜测签名
+  const expectedBuf = Buffer.from(expected, "utf8");
+  const actualBuf = Buffer.from(String(params.signature ?? ""), "utf8");
+  if (expectedBuf.length !== actualBuf.length) return false;
+  return crypto.timingSafeEqual(expectedBuf, actualBuf);
 }
 
 export function decryptWecomEncrypted(params: {
@@ -131,3 +135,16 @@ export function encryptWecomPlaintext(params: {
   const encrypted = Buffer.concat([cipher.update(padded), cipher.final()]);
   return encrypted.toString("base64");
 }
+
+/**
+ * 解密智能机器人回调中图片、文件 URL 下载到的内容
+ * 与消息体相同使用 AES-256-CBC（IV 为密钥前 16 字节，PKCS#7 按 32 字节填充），但没有随机串和长度前缀
+ */
+export function decryptWecomMedia(params: { encodingAESKey: string; data: Buffer }): Buffer {
+  const aesKey = decodeEncodingAESKey(params.encodingAESKey);
+  const iv = aesKey.subarray(0, 16);
+  const decipher = crypto.createDecipheriv("aes-256-cbc", aesKey, iv);
+  decipher.setAutoPadding(false);
+  const decryptedPadded = Buffer.concat([decipher.update(params.data), decipher.final()]);
+  return pkcs7Unpad(decryptedPadded, WECOM_PKCS7_BLOCK_SIZE);
+}
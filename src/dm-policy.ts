@@ -0,0 +1,97 @@
+import type { OpenclawConfig, PluginRuntime } from "openclaw/plugin-sdk";
+
+import type { ResolvedWecomAccount, WecomAccountConfig, WecomConfig } from "./types.js";
+
+export type WecomDmPolicy = "pairing" | "allowlist" | "open" | "disabled";
+
+export type WecomDmAccess =
+  | { allowed: true }
+  | { allowed: false; reason: "disabled" | "allowlist" }
+  | { allowed: false; reason: "pairing"; code: string; created: boolean };
+
+export function normalizeWecomAllowEntry(raw: string): string {
+  return raw
+    .trim()
+    .replace(/^(wecom|wechatwork|wework|qywx):/i, "")
+    .trim()
+    .toLowerCase();
+}
+
+export function resolveWecomDmPolicy(account: ResolvedWecomAccount): WecomDmPolicy {
+  return account.config.dm?.policy ?? "pairing";
+}
+
+function isSenderAllowed(allowFrom: string[], senderId: string): boolean {
+  const normalized = normalizeWecomAllowEntry(senderId);
+  return allowFrom.some((entry) => {
+    const candidate = normalizeWecomAllowEntry(entry);
+    return candidate === "*" || candidate === normalized;
+  });
+}
+
+/**
+ * 判断私聊发送者是否允许触发 agent
+ * allowFrom 合并配置文件中的 dm.allowFrom 与配对审批后的 allowFrom 存储
+ */
+export async function resolveWecomDmAccess(params: {
+  account: ResolvedWecomAccount;
+  senderId: string;
+  core?: PluginRuntime | null;
+}): Promise<WecomDmAccess> {
+  const { account, senderId, core } = params;
+  const policy = resolveWecomDmPolicy(account);
+
+  if (policy === "open") return { allowed: true };
+  if (policy === "disabled") return { allowed: false, reason: "disabled" };
+
+  const configAllowFrom = (account.config.dm?.allowFrom ?? []).map((entry) => String(entry));
+  const storeAllowFrom = core
+    ? await core.channel.pairing.readAllowFromStore("wecom").catch(() => [] as string[])
+    : [];
+  if (isSenderAllowed([...configAllowFrom, ...storeAllowFrom], senderId)) {
+    return { allowed: true };
+  }
+
+  if (policy === "allowlist") return { allowed: false, reason: "allowlist" };
+
+  // pairing 依赖运行时的配对存储；运行时未就绪时本来也不会派发 agent
+  if (!core) return { allowed: true };
+
+  const { code, created } = await core.channel.pairing.upsertPairingRequest({
+    channel: "wecom",
+    id: normalizeWecomAllowEntry(senderId),
+    meta: { name: senderId, accountId: account.accountId },
+  });
+  return { allowed: false, reason: "pairing", code, created };
+}
+
+/**
+ * 将审批通过的 userid 写入 dm.allowFrom（账号级配置存在时写入账号下）
+ */
+export function addWecomAllowFromEntry(params: {
+  cfg: OpenclawConfig;
+  accountId: string;
+  entry: string;
+}): OpenclawConfig {
+  const { cfg, accountId } = params;
+  const entry = normalizeWecomAllowEntry(params.entry);
+  const section = (cfg.channels?.wecom ?? {}) as WecomConfig;
+  const accountConfig = section.accounts?.[accountId];
+
+  const withEntry = (config: WecomAccountConfig): WecomAccountConfig => {
+    const existing = config.dm?.allowFrom ?? [];
+    if (existing.some((candidate) => normalizeWecomAllowEntry(String(candidate)) === entry)) {
+      return config;
+    }
+    return { ...config, dm: { ...config.dm, allowFrom: [...existing, entry] } };
+  };
+
+  const nextSection: WecomConfig = accountConfig
+    ? { ...section, accounts: { ...section.accounts, [accountId]: withEntry(accountConfig) } }
+    : { ...section, ...withEntry(section) };
+
+  return {
+    ...cfg,
+    channels: { ...cfg.channels, wecom: nextSection },
+  };
+}
@@ -0,0 +1,108 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { describe, expect, it } from "vitest";
+
+import { downloadFile, isBlockedAddress } from "./download.js";
+
+async function withServer(
+  handler: (req: IncomingMessage, res: ServerResponse, port: number) => void,
+  fn: (port: number, paths: string[]) => Promise<void>,
+) {
+  const paths: string[] = [];
+  let port = 0;
+  const server = createServer((req, res) => {
+    paths.push(req.url ?? "/");
+    handler(req, res, port);
+  });
+  await new Promise<void>((resolve) => {
+    server.listen(0, "127.0.0.1", () => resolve());
+  });
+  const address = server.address() as AddressInfo | null;
+  if (!address) throw new Error("missing server address");
+  port = address.port;
+  try {
+    await fn(port, paths);
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
+
+describe("isBlockedAddress", () => {
+  it("blocks private, loopback and link-local ranges", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.1", "169.254.169.254", "::1", "fe80::1", "fd00::1", "::ffff:127.0.0.1"]) {
+      expect(isBlockedAddress(address), address).toBe(true);
+    }
+  });
+
+  it("blocks IPv6 addresses that embed a private IPv4 address", () => {
+    for (const address of ["::127.0.0.1", "::ffff:7f00:1", "64:ff9b::7f00:1", "64:ff9b::10.0.0.1", "2002:7f00:1::", "2002:a9fe:a9fe::1"]) {
+      expect(isBlockedAddress(address), address).toBe(true);
+    }
+  });
+
+  it("allows public addresses", () => {
+    for (const address of ["1.1.1.1", "101.91.0.1", "2408:8000::1", "64:ff9b::101:101", "2002:101:101::1"]) {
+      expect(isBlockedAddress(address), address).toBe(false);
+    }
+  });
+});
+
+describe("downloadFile", () => {
+  it("refuses loopback URLs unless the host is allowlisted", async () => {
+    await withServer((_req, res) => res.end("secret"), async (port, paths) => {
+      const url = `http://127.0.0.1:${port}/secret.txt`;
+      expect(await downloadFile({ url, maxBytes: 1024 })).toBeNull();
+      expect(paths).toHaveLength(0);
+
+      const allowed = await downloadFile({ url, maxBytes: 1024, policy: { allowHosts: ["127.0.0.1"] } });
+      expect(allowed).toMatchObject({ buffer: Buffer.from("secret") });
+    });
+  });
+
+  it("re-checks every redirect hop", async () => {
+    await withServer((_req, res, port) => {
+      res.statusCode = 302;
+      res.setHeader("Location", `http://localhost:${port}/internal`);
+      res.end();
+    }, async (port, paths) => {
+      const logs: string[] = [];
+      const result = await downloadFile({
+        url: `http://127.0.0.1:${port}/redirect`,
+        maxBytes: 1024,
+        policy: { allowHosts: ["127.0.0.1"] },
+        log: (message) => logs.push(message),
+      });
+      expect(result).toBeNull();
+      expect(paths).toEqual(["/redirect"]);
+      expect(logs.join("\n")).toContain("blocked address");
+    });
+  });
+
+  it("refuses denylisted hosts even when allowlisted", async () => {
+    await withServer((_req, res) => res.end("ok"), async (port, paths) => {
+      const result = await downloadFile({
+        url: `http://127.0.0.1:${port}/file`,
+        maxBytes: 1024,
+        policy: { allowHosts: ["127.0.0.1"], denyHosts: ["127.0.0.1"] },
+      });
+      expect(result).toBeNull();
+      expect(paths).toHaveLength(0);
+    });
+  });
+
+  it("stops streaming once the byte limit is exceeded", async () => {
+    await withServer((_req, res) => {
+      // 分块传输，没有 Content-Length
+      res.write(Buffer.alloc(600));
+      res.end(Buffer.alloc(600));
+    }, async (port) => {
+      const result = await downloadFile({
+        url: `http://127.0.0.1:${port}/big`,
+        maxBytes: 1000,
+        policy: { allowHosts: ["127.0.0.1"] },
+      });
+      expect(result).toEqual({ tooLarge: true });
+    });
+  });
+});
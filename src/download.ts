@@ -0,0 +1,294 @@
+/**
+ * 远程资源下载
+ * 用于下载回调中的图片链接以及回复中引用的图片和文件
+ *
+ * 回复中的 URL 由模型生成，可能被提示注入利用来探测内网（SSRF），因此下载前：
+ * - 只允许 http/https
+ * - 解析 DNS 并拒绝私有、回环、链路本地等地址（在实际建立连接时校验，避免 DNS rebinding）
+ * - 手动跟随重定向，每一跳重新校验，并限制跳数
+ * - 边下载边统计字节数，超过上限立即中止
+ */
+
+import dns from "node:dns";
+import http, { type IncomingMessage } from "node:http";
+import https from "node:https";
+import net from "node:net";
+
+import type { WecomAccountConfig } from "./types.js";
+
+const USER_AGENT = "Mozilla/5.0 (compatible; ClawdbotWecom/1.0)";
+const MAX_REDIRECTS = 5;
+const DEFAULT_TIMEOUT_MS = 60000;
+
+/**
+ * 下载的主机访问策略
+ * allowHosts 中的主机跳过内网地址检查（用于访问内网资源）；denyHosts 中的主机始终拒绝
+ * 支持精确主机名、IP，以及 `*.example.com` 匹配子域名
+ */
+export type WecomDownloadPolicy = {
+  allowHosts?: string[];
+  denyHosts?: string[];
+};
+
+export function resolveDownloadPolicy(config: WecomAccountConfig): WecomDownloadPolicy {
+  return {
+    allowHosts: config.downloadAllowHosts,
+    denyHosts: config.downloadDenyHosts,
+  };
+}
+
+// 不允许访问的地址段
+const blockedAddresses = new net.BlockList();
+for (const [prefix, bits] of [
+  ["0.0.0.0", 8], // 本网络
+  ["10.0.0.0", 8], // 私有
+  ["100.64.0.0", 10], // 运营商级 NAT
+  ["127.0.0.0", 8], // 回环
+  ["169.254.0.0", 16], // 链路本地（含云厂商元数据地址）
+  ["172.16.0.0", 12], // 私有
+  ["192.0.0.0", 24], // IETF 协议分配
+  ["192.168.0.0", 16], // 私有
+  ["198.18.0.0", 15], // 基准测试
+  ["224.0.0.0", 4], // 组播
+  ["240.0.0.0", 4], // 保留及广播
+] as const) {
+  blockedAddresses.addSubnet(prefix, bits, "ipv4");
+}
+for (const [prefix, bits] of [
+  ["::", 128], // 未指定
+  ["::1", 128], // 回环
+  ["fc00::", 7], // 唯一本地
+  ["fe80::", 10], // 链路本地
+  ["ff00::", 8], // 组播
+] as const) {
+  blockedAddresses.addSubnet(prefix, bits, "ipv6");
+}
+
+/**
+ * 将已通过 net.isIP 校验的 IPv6 地址展开为 8 个 16 位分组
+ */
+function parseIpv6Groups(address: string): number[] {
+  let text = address.toLowerCase().replace(/%.*$/, "");
+  // 末尾的点分 IPv4 转为两个分组
+  const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number) as [number, number, number, number];
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head = "", tail] = text.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const groups = tail === undefined
+    ? headGroups
+    : [...headGroups, ...Array<string>(8 - headGroups.length - tailGroups.length).fill("0"), ...tailGroups];
+  return groups.map((group) => parseInt(group, 16));
+}
+
+/**
+ * 提取 IPv6 地址中内嵌的 IPv4 地址：IPv4 映射（::ffff:a.b.c.d）、IPv4 兼容（::a.b.c.d）、
+ * NAT64（64:ff9b::/96）和 6to4（2002::/16），这些地址都可能被转发到内嵌的 IPv4 地址
+ */
+function extractEmbeddedIpv4(address: string): string | null {
+  const groups = parseIpv6Groups(address);
+  const toIpv4 = (high: number, low: number) => `${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`;
+  if (groups.slice(0, 5).every((group) => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) {
+    return toIpv4(groups[6]!, groups[7]!);
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) {
+    return toIpv4(groups[6]!, groups[7]!);
+  }
+  if (groups[0] === 0x2002) return toIpv4(groups[1]!, groups[2]!);
+  return null;
+}
+
+/**
+ * 判断地址是否属于私有、回环、链路本地等不可访问的网段
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 4) return blockedAddresses.check(address, "ipv4");
+  if (family === 6) {
+    // 内嵌 IPv4 的地址按内嵌的 IPv4 地址判断（:: 与 ::1 分别对应 0.0.0.0/8 中的地址）
+    const embedded = extractEmbeddedIpv4(address);
+    if (embedded) return blockedAddresses.check(embedded, "ipv4");
+    return blockedAddresses.check(address, "ipv6");
+  }
+  // 无法识别的地址一律拒绝
+  return true;
+}
+
+function matchesHost(hostname: string, patterns: string[] | undefined): boolean {
+  if (!patterns?.length) return false;
+  const host = hostname.toLowerCase();
+  return patterns.some((raw) => {
+    const pattern = raw.trim().toLowerCase();
+    if (!pattern) return false;
+    if (pattern.startsWith("*.")) return host.endsWith(pattern.slice(1));
+    return host === pattern;
+  });
+}
+
+class DownloadBlockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DownloadBlockedError";
+  }
+}
+
+type LookupCallback = (err: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void;
+
+/**
+ * 解析 DNS 并校验解析结果；作为 http.request 的 lookup 使用，确保实际连接的地址经过校验
+ */
+function createGuardedLookup(policy: WecomDownloadPolicy) {
+  return (hostname: string, options: dns.LookupOptions, callback: LookupCallback) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+      if (err) {
+        callback(err, []);
+        return;
+      }
+      const allowed = matchesHost(hostname, policy.allowHosts);
+      const blocked = addresses.find((entry) => isBlockedAddress(entry.address));
+      if (!allowed && blocked) {
+        callback(new DownloadBlockedError(`blocked address ${blocked.address} for host ${hostname}`), []);
+        return;
+      }
+      if (addresses.length === 0) {
+        callback(Object.assign(new Error(`no address for host ${hostname}`), { code: "ENOTFOUND" }), []);
+        return;
+      }
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
+
+/**
+ * 校验 URL 的协议和主机（IP 字面量不会经过 DNS 解析，在这里直接检查）
+ */
+function assertUrlAllowed(url: URL, policy: WecomDownloadPolicy): void {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new DownloadBlockedError(`unsupported protocol ${url.protocol}`);
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  if (matchesHost(hostname, policy.denyHosts)) {
+    throw new DownloadBlockedError(`host ${hostname} is denied`);
+  }
+  if (net.isIP(hostname) && isBlockedAddress(hostname) && !matchesHost(hostname, policy.allowHosts)) {
+    throw new DownloadBlockedError(`blocked address ${hostname}`);
+  }
+}
+
+function requestOnce(url: URL, policy: WecomDownloadPolicy, signal: AbortSignal): Promise<IncomingMessage> {
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.get(url, {
+      signal,
+      headers: { "User-Agent": USER_AGENT },
+      lookup: createGuardedLookup(policy),
+    }, resolve);
+    req.on("error", reject);
+  });
+}
+
+/**
+ * 请求 URL 并手动跟随重定向，每一跳都重新校验
+ */
+async function requestWithRedirects(
+  rawUrl: string,
+  policy: WecomDownloadPolicy,
+  signal: AbortSignal,
+): Promise<IncomingMessage> {
+  let url = new URL(rawUrl);
+  for (let redirects = 0; ; redirects++) {
+    assertUrlAllowed(url, policy);
+    const res = await requestOnce(url, policy, signal);
+    const status = res.statusCode ?? 0;
+    const location = res.headers.location;
+    if (status < 300 || status >= 400 || !location) return res;
+
+    res.resume();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error(`too many redirects (${MAX_REDIRECTS})`);
+    }
+    url = new URL(location, url);
+  }
+}
+
+/**
+ * 从 Content-Disposition 中解析文件名（优先使用 RFC 5987 的 filename*）
+ */
+function parseContentDispositionFilename(header: string | undefined): string | undefined {
+  if (!header) return undefined;
+  const extended = /filename\*\s*=\s*(?:[\w-]+)?'[^']*'([^;]+)/i.exec(header);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[1].trim());
+    } catch {
+      // 编码无效时回退到普通 filename
+    }
+  }
+  const plain = /filename\s*=\s*(?:"([^"]*)"|([^;]+))/i.exec(header);
+  const value = (plain?.[1] ?? plain?.[2])?.trim();
+  return value || undefined;
+}
+
+/**
+ * 下载远程资源，超过 maxBytes 时中止下载
+ * @returns 下载失败或地址被拒绝时返回 null；超过大小上限时返回 { tooLarge: true }
+ */
+export async function downloadFile(params: {
+  url: string;
+  maxBytes: number;
+  timeoutMs?: number;
+  policy?: WecomDownloadPolicy;
+  log?: (message: string) => void;
+}): Promise<{ buffer: Buffer; contentType: string; filename?: string } | { tooLarge: true } | null> {
+  const { url, maxBytes, timeoutMs = DEFAULT_TIMEOUT_MS, policy = {}, log } = params;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const res = await requestWithRedirects(url, policy, controller.signal);
+    const status = res.statusCode ?? 0;
+    if (status < 200 || status >= 300) {
+      res.resume();
+      return null;
+    }
+
+    // 优先根据 Content-Length 判断，避免下载注定超限的文件
+    const declared = Number(res.headers["content-length"] ?? "");
+    if (Number.isFinite(declared) && declared > maxBytes) {
+      res.destroy();
+      return { tooLarge: true };
+    }
+
+    const chunks: Buffer[] = [];
+    let total = 0;
+    for await (const chunk of res) {
+      const buffer = chunk as Buffer;
+      total += buffer.length;
+      if (total > maxBytes) {
+        res.destroy();
+        return { tooLarge: true };
+      }
+      chunks.push(buffer);
+    }
+
+    return {
+      buffer: Buffer.concat(chunks),
+      contentType: res.headers["content-type"] || "application/octet-stream",
+      filename: parseContentDispositionFilename(res.headers["content-disposition"]),
+    };
+  } catch (err) {
+    if (err instanceof DownloadBlockedError) {
+      log?.(`[wecom] 已拒绝下载 ${url}: ${err.message}`);
+    }
+    return null;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
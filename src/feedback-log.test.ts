@@ -0,0 +1,44 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { createFileFeedbackLog, createMemoryFeedbackLog, resolveFeedbackLogPath } from "./feedback-log.js";
+
+describe("feedback log", () => {
+  let dir = "";
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "wecom-feedback-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("counts the latest rating per answer and drops cancelled ratings", async () => {
+    const log = createMemoryFeedbackLog();
+    expect(await log.append({ at: 1, feedbackId: "s1", rating: "like" })).toEqual({ likes: 1, dislikes: 0 });
+    expect(await log.append({ at: 2, feedbackId: "s2", rating: "dislike" })).toEqual({ likes: 1, dislikes: 1 });
+    expect(await log.append({ at: 3, feedbackId: "s1", rating: "dislike" })).toEqual({ likes: 0, dislikes: 2 });
+    expect(await log.append({ at: 4, feedbackId: "s2", rating: "cancel" })).toEqual({ likes: 0, dislikes: 1 });
+  });
+
+  it("appends JSONL lines and restores counts from the file", async () => {
+    const filePath = resolveFeedbackLogPath(dir, "default");
+    const log = createFileFeedbackLog(filePath);
+    await log.append({ at: 1, feedbackId: "s1", rating: "like", sessionKey: "wecom:alice", reply: "答案" });
+    await log.append({ at: 2, feedbackId: "s2", rating: "dislike", comment: "不准确", reasons: [2] });
+
+    const lines = (await readFile(filePath, "utf8")).trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line) as unknown)).toEqual([
+      { at: 1, feedbackId: "s1", rating: "like", sessionKey: "wecom:alice", reply: "答案" },
+      { at: 2, feedbackId: "s2", rating: "dislike", comment: "不准确", reasons: [2] },
+    ]);
+
+    // 模拟崩溃留下的残行
+    await writeFile(filePath, `${lines.join("\n")}\n{"at":3,"feedb`, "utf8");
+    expect(await createFileFeedbackLog(filePath).counts()).toEqual({ likes: 1, dislikes: 1 });
+  });
+});
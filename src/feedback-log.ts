@@ -0,0 +1,103 @@
+/**
+ * 回答反馈日志
+ * 智能机器人用户对回答点赞、点踩后，反馈事件关联到产生该回答的 stream，逐行追加到 JSONL 文件，
+ * 并按反馈 id 取最后一次评价统计各机器人的回答质量（取消评价后不再计入）
+ */
+
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { createLazyState } from "./lazy-state.js";
+
+export type WecomFeedbackRating = "like" | "dislike" | "cancel";
+
+export type WecomFeedbackEntry = {
+  at: number;
+  feedbackId: string; // 与回答的 streamId 相同
+  rating: WecomFeedbackRating;
+  comment?: string;
+  reasons?: number[]; // 点踩时选择的原因编号
+  userid?: string;
+  msgid?: string; // 用户提问的 msgid
+  sessionKey?: string;
+  reply?: string; // agent 的回答内容
+};
+
+export type WecomFeedbackCounts = {
+  likes: number;
+  dislikes: number;
+};
+
+export type WecomFeedbackLog = {
+  append: (entry: WecomFeedbackEntry) => Promise<WecomFeedbackCounts>;
+  counts: () => Promise<WecomFeedbackCounts>;
+};
+
+function tally(ratings: Map<string, WecomFeedbackRating>): WecomFeedbackCounts {
+  const counts: WecomFeedbackCounts = { likes: 0, dislikes: 0 };
+  for (const rating of ratings.values()) {
+    if (rating === "like") counts.likes += 1;
+    if (rating === "dislike") counts.dislikes += 1;
+  }
+  return counts;
+}
+
+function createLog(params: {
+  load: () => Promise<WecomFeedbackEntry[]>;
+  append: (entry: WecomFeedbackEntry) => Promise<void>;
+}): WecomFeedbackLog {
+  const state = createLazyState(async () => {
+    const loaded = await params.load();
+    return new Map(loaded.map((entry) => [entry.feedbackId, entry.rating]));
+  });
+
+  return {
+    append: async (entry) => {
+      const map = await state.get();
+      await state.write(() => params.append(entry));
+      map.set(entry.feedbackId, entry.rating);
+      return tally(map);
+    },
+    counts: async () => tally(await state.get()),
+  };
+}
+
+export function createMemoryFeedbackLog(initial: WecomFeedbackEntry[] = []): WecomFeedbackLog {
+  return createLog({ load: async () => [...initial], append: async () => {} });
+}
+
+/**
+ * 基于 JSONL 文件的反馈日志（只追加；无法解析的行在统计时跳过）
+ */
+export function createFileFeedbackLog(filePath: string): WecomFeedbackLog {
+  return createLog({
+    load: async () => {
+      let raw: string;
+      try {
+        raw = await readFile(filePath, "utf8");
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw err;
+      }
+      const entries: WecomFeedbackEntry[] = [];
+      for (const line of raw.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          const entry = JSON.parse(line) as Partial<WecomFeedbackEntry>;
+          if (entry.feedbackId && entry.rating) entries.push(entry as WecomFeedbackEntry);
+        } catch {
+          // 写到一半时崩溃留下的残行
+        }
+      }
+      return entries;
+    },
+    append: async (entry) => {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await appendFile(filePath, `${JSON.stringify(entry)}\n`, "utf8");
+    },
+  });
+}
+
+export function resolveFeedbackLogPath(stateDir: string, accountId: string): string {
+  return path.join(stateDir, `feedback-${accountId}.jsonl`);
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+
+import { formatWecomText, resolveWecomTextMessage } from "./format.js";
+
+const sample = [
+  "# 部署结果",
+  "",
+  "**成功**，详见 [日志](https://example.com/log) 和 ~~旧地址~~。",
+  "",
+  "- 前端",
+  "  - 构建 *通过*",
+  "    1. 单元测试",
+  "- 后端 `api`",
+  "",
+  "```bash",
+  "npm run build",
+  "```",
+  "",
+  "> 注意：snake_case_name 不受影响",
+].join("\n");
+
+describe("formatWecomText", () => {
+  it("keeps code blocks and flattens nested lists for stream replies", () => {
+    expect(formatWecomText(sample, "stream")).toBe([
+      "# 部署结果",
+      "",
+      "**成功**，详见 [日志](https://example.com/log) 和 ~~旧地址~~。",
+      "",
+      "- 前端",
+      "- 构建 *通过*",
+      "1. 单元测试",
+      "- 后端 `api`",
+      "",
+      "```bash",
+      "npm run build",
+      "```",
+      "",
+      "> 注意：snake_case_name 不受影响",
+    ].join("\n"));
+  });
+
+  it("renders the markdown message subset", () => {
+    expect(formatWecomText(sample, "markdown")).toBe([
+      "# 部署结果",
+      "",
+      "**成功**，详见 [日志](https://example.com/log) 和 旧地址。",
+      "",
+      "• 前端",
+      "　　• 构建 通过",
+      "　　　　1. 单元测试",
+      "• 后端 `api`",
+      "",
+      "> npm run build",
+      "",
+      "> 注意：snake_case_name 不受影响",
+    ].join("\n"));
+  });
+
+  it("strips all formatting for text messages", () => {
+    expect(formatWecomText(sample, "text")).toBe([
+      "部署结果",
+      "",
+      "成功，详见 日志 (https://example.com/log) 和 旧地址。",
+      "",
+      "• 前端",
+      "  • 构建 通过",
+      "    1. 单元测试",
+      "• 后端 api",
+      "",
+      "npm run build",
+      "",
+      "> 注意：snake_case_name 不受影响",
+    ].join("\n"));
+  });
+
+  it("flattens tables and images outside stream replies", () => {
+    const text = "| 名称 | 状态 |\n| --- | :-: |\n| api | ✅ |\n\n![截图](https://example.com/a.png)";
+    expect(formatWecomText(text, "markdown")).toBe("名称 | 状态\napi | ✅\n\n[截图](https://example.com/a.png)");
+    expect(formatWecomText(text, "text")).toBe("名称 | 状态\napi | ✅\n\n截图 https://example.com/a.png");
+  });
+
+  it("leaves inline code untouched", () => {
+    expect(formatWecomText("运行 `a *b* c` 和 *强调*", "markdown")).toBe("运行 `a *b* c` 和 强调");
+    expect(formatWecomText("运行 `**x**`", "text")).toBe("运行 **x**");
+  });
+});
+
+describe("resolveWecomTextMessage", () => {
+  it("uses markdown only when the content has renderable formatting", () => {
+    expect(resolveWecomTextMessage("**注意**：明天停机")).toEqual({ msgtype: "markdown", content: "**注意**：明天停机" });
+    expect(resolveWecomTextMessage("- 第一项\n- 第二项")).toEqual({ msgtype: "text", content: "• 第一项\n• 第二项" });
+    expect(resolveWecomTextMessage("2*3*4 = 24")).toEqual({ msgtype: "text", content: "2*3*4 = 24" });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * 回复文本格式转换
+ * agent 输出 CommonMark，各发送渠道支持的格式不同：
+ * - stream：智能机器人 stream 支持常用 markdown（含代码块、列表），但不支持嵌套列表
+ * - markdown：自建应用、群机器人的 markdown 消息只支持标题、加粗、链接、行内代码、引用和 <font color>
+ * - text：message/send 的文本消息没有任何格式
+ */
+
+import { WECOM_TEXT_MAX_BYTES, type WecomApiClient } from "./api.js";
+import { splitTextByUtf8Bytes } from "./chunk.js";
+
+export type WecomTextDialect = "stream" | "markdown" | "text";
+
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const QUOTE_PATTERN = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TASK_PATTERN = /^\[([ xX])\]\s+/;
+const HORIZONTAL_RULE_PATTERN = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const INLINE_CODE_PATTERN = /(`+)([\s\S]*?[^`])\1(?!`)/g;
+
+// markdown 消息中列表缩进使用全角空格，半角空格会被折叠
+const MARKDOWN_INDENT = "　";
+
+function indentWidth(indent: string): number {
+  return indent.replace(/\t/g, "    ").length;
+}
+
+/**
+ * 对行内代码以外的部分应用转换
+ */
+function mapOutsideInlineCode(line: string, fn: (text: string) => string, code: (content: string) => string): string {
+  let result = "";
+  let last = 0;
+  for (const match of line.matchAll(INLINE_CODE_PATTERN)) {
+    result += fn(line.slice(last, match.index)) + code(match[2]!);
+    last = match.index + match[0].length;
+  }
+  return result + fn(line.slice(last));
+}
+
+function formatInlineMarkdown(text: string): string {
+  return text
+    // 不支持图片：转换为链接
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, (_match, alt: string, url: string) => `[${alt.trim() || "图片"}](${url})`)
+    .replace(/<(https?:\/\/[^>\s]+)>/g, "[$1]($1)")
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(/__(?=\S)(.+?)(?<=\S)__/g, "**$1**")
+    // 不支持斜体：去掉单个 * 或 _
+    .replace(/(^|[^*\w])\*(?=[^\s*])(.+?)(?<=[^\s*])\*(?!\*)/g, "$1$2")
+    .replace(/(^|[^_\w])_(?=[^\s_])(.+?)(?<=[^\s_])_(?![_\w])/g, "$1$2");
+}
+
+function formatInlineText(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, (_match, alt: string, url: string) => `${alt.trim() || "图片"} ${url}`)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_match, label: string, url: string) => (
+      label.trim() === url ? url : `${label} (${url})`
+    ))
+    .replace(/<(https?:\/\/[^>\s]+)>/g, "$1")
+    .replace(/<font\b[^>]*>([\s\S]*?)<\/font>/gi, "$1")
+    .replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, "$1")
+    .replace(/__(?=\S)(.+?)(?<=\S)__/g, "$1")
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(/(^|[^*\w])\*(?=[^\s*])(.+?)(?<=[^\s*])\*(?!\*)/g, "$1$2")
+    .replace(/(^|[^_\w])_(?=[^\s_])(.+?)(?<=[^\s_])_(?![_\w])/g, "$1$2");
+}
+
+function formatInline(line: string, dialect: WecomTextDialect): string {
+  if (dialect === "stream") return line;
+  if (dialect === "markdown") return mapOutsideInlineCode(line, formatInlineMarkdown, (content) => `\`${content}\``);
+  return mapOutsideInlineCode(line, formatInlineText, (content) => content);
+}
+
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, "").replace(/\|$/, "").split("|").map((cell) => cell.trim());
+}
+
+function formatListItem(params: {
+  dialect: WecomTextDialect;
+  level: number;
+  marker: string;
+  text: string;
+}): string {
+  const { dialect, level, marker } = params;
+  const ordered = /\d/.test(marker);
+  let text = params.text;
+  const task = TASK_PATTERN.exec(text);
+  if (task && dialect !== "stream") {
+    text = `${task[1] === " " ? "☐" : "☑"} ${text.slice(task[0].length)}`;
+  }
+  const content = formatInline(text, dialect);
+
+  // stream 不支持嵌套列表：子项提升为顶层列表项
+  if (dialect === "stream") return `${ordered ? marker : "-"} ${content}`;
+  const bullet = ordered ? marker.replace(")", ".") : "•";
+  const indent = dialect === "markdown" ? MARKDOWN_INDENT.repeat(level * 2) : "  ".repeat(level);
+  return `${indent}${bullet} ${content}`;
+}
+
+/**
+ * 将 agent 的 markdown 转换为目标渠道支持的格式
+ */
+export function formatWecomText(text: string, dialect: WecomTextDialect): string {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const output: string[] = [];
+  let fence: string | null = null;
+  let inTable = false;
+  // 当前列表各层级的缩进宽度
+  const listIndents: number[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+
+    // 代码块：stream 原样保留；markdown 转为引用；text 只保留代码内容
+    const fenceMatch = FENCE_PATTERN.exec(line);
+    if (fence !== null) {
+      if (fenceMatch && fenceMatch[1]!.startsWith(fence)) {
+        fence = null;
+        if (dialect === "stream") output.push(line);
+        continue;
+      }
+      if (dialect === "stream") output.push(line);
+      else if (dialect === "markdown") output.push(line.trim() ? `> ${line}` : ">");
+      else output.push(line);
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1]!;
+      listIndents.length = 0;
+      if (dialect === "stream") output.push(line);
+      continue;
+    }
+
+    // 表格（stream 中已由运行时按配置转换）
+    if (dialect !== "stream") {
+      if (!inTable && line.includes("|") && TABLE_SEPARATOR_PATTERN.test(lines[i + 1] ?? "") && lines[i + 1]!.includes("-")) {
+        inTable = true;
+        output.push(formatInline(splitTableRow(line).join(" | "), dialect));
+        i++;
+        continue;
+      }
+      if (inTable && line.includes("|")) {
+        output.push(formatInline(splitTableRow(line).join(" | "), dialect));
+        continue;
+      }
+    }
+    inTable = false;
+
+    const listMatch = LIST_ITEM_PATTERN.exec(line);
+    if (listMatch && !HORIZONTAL_RULE_PATTERN.test(line)) {
+      const width = indentWidth(listMatch[1]!);
+      while (listIndents.length > 0 && listIndents[listIndents.length - 1]! >= width) listIndents.pop();
+      const level = listIndents.length;
+      listIndents.push(width);
+      output.push(formatListItem({ dialect, level, marker: listMatch[2]!, text: listMatch[3]! }));
+      continue;
+    }
+    if (line.trim() && !/^\s/.test(line)) listIndents.length = 0;
+
+    if (HORIZONTAL_RULE_PATTERN.test(line)) {
+      output.push(dialect === "stream" ? line : "");
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      output.push(dialect === "text" ? formatInline(heading[2]!, dialect) : `${heading[1]} ${formatInline(heading[2]!, dialect)}`);
+      continue;
+    }
+
+    const quote = QUOTE_PATTERN.exec(line);
+    if (quote) {
+      output.push(`> ${formatInline(quote[1]!, dialect)}`.trimEnd());
+      continue;
+    }
+
+    output.push(formatInline(line, dialect));
+  }
+
+  return output.join("\n").replace(/\n{3,}/g, "\n\n");
+}
+
+// markdown 消息能够呈现的格式：标题、加粗、链接、代码、引用、字体颜色
+const MARKDOWN_FEATURE_PATTERN = /^\s{0,3}#{1,6}\s|\*\*\S|\[[^\]]+\]\([^)\s]+\)|`[^`\n]+`|^\s{0,3}>|^\s*```|<font\b/m;
+
+/**
+ * 出站文本消息：包含 markdown 消息能呈现的格式时使用 markdown，否则转换为纯文本
+ */
+export function resolveWecomTextMessage(text: string): { msgtype: "markdown" | "text"; content: string } {
+  return MARKDOWN_FEATURE_PATTERN.test(text)
+    ? { msgtype: "markdown", content: formatWecomText(text, "markdown") }
+    : { msgtype: "text", content: formatWecomText(text, "text") };
+}
+
+export type WecomTextSendResult = {
+  total: number; // 分段数
+  msgids: string[];
+  errors: Array<{ index: number; error: unknown }>; // 发送失败的分段（从 0 开始）
+};
+
+/**
+ * 通过出站 API 发送文本，消息类型见 resolveWecomTextMessage
+ * 超过 2048 字节时按段落切分后依次发送，某一段失败不影响后续分段
+ */
+export async function sendAppText(params: {
+  client: WecomApiClient;
+  target: string;
+  text: string;
+  isGroup?: boolean;
+  sequenceMarkers?: boolean;
+  log?: (message: string) => void;
+}): Promise<WecomTextSendResult> {
+  const { client, target, text, isGroup, sequenceMarkers = true, log } = params;
+  const message = resolveWecomTextMessage(text);
+  const chunks = splitTextByUtf8Bytes(message.content, WECOM_TEXT_MAX_BYTES, { sequenceMarkers });
+  const result: WecomTextSendResult = { total: chunks.length, msgids: [], errors: [] };
+
+  for (const [index, chunk] of chunks.entries()) {
+    try {
+      const sent = message.msgtype === "markdown"
+        ? await client.sendMarkdown({ target, content: chunk, isGroup })
+        : await client.sendText({ target, text: chunk, isGroup });
+      if (sent.msgid) result.msgids.push(sent.msgid);
+      log?.(`[wecom] 主动发送文本成功 (${index + 1}/${chunks.length})`);
+    } catch (err) {
+      result.errors.push({ index, error: err });
+      log?.(`[wecom] 主动发送文本失败 (${index + 1}/${chunks.length}): ${String(err)}`);
+    }
+  }
+  return result;
+}
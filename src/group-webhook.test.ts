@@ -0,0 +1,139 @@
+import crypto from "node:crypto";
+
+import { describe, expect, it } from "vitest";
+
+import type { ResolvedWecomAccount, WecomAccountConfig } from "./types.js";
+import { WecomApiClient } from "./api.js";
+import { resolveWecomGroupWebhookKey, sendGroupWebhookMedia, sendGroupWebhookText } from "./group-webhook.js";
+import { withApiStub } from "./test-helpers.js";
+
+function createAccount(config: WecomAccountConfig, outboundConfigured = false): ResolvedWecomAccount {
+  return {
+    accountId: "default",
+    enabled: true,
+    configured: true,
+    receiveId: "",
+    outboundConfigured,
+    config,
+  };
+}
+
+// webhook/send 与 webhook/upload_media 都不需要 access_token
+const respondRobot = (req: { path: string }) =>
+  req.path.endsWith("/webhook/upload_media") ? { errcode: 0, media_id: "ROBOT-MEDIA-1" } : { errcode: 0, errmsg: "ok" };
+
+describe("resolveWecomGroupWebhookKey", () => {
+  it("prefers the per-chat key, even when the corp API is configured", () => {
+    const account = createAccount({ groupWebhookKey: "DEFAULT", groupWebhookKeys: { wrTEAM: "TEAM" } }, true);
+    expect(resolveWecomGroupWebhookKey(account, "wrTEAM")).toBe("TEAM");
+    expect(resolveWecomGroupWebhookKey(account, "webhook:wrTEAM")).toBe("TEAM");
+    expect(resolveWecomGroupWebhookKey(account, "wrOTHER")).toBeUndefined();
+  });
+
+  it("uses the default key for group chats and webhook: targets without a corp API", () => {
+    const account = createAccount({ groupWebhookKey: "DEFAULT" });
+    expect(resolveWecomGroupWebhookKey(account, "wrOTHER")).toBe("DEFAULT");
+    expect(resolveWecomGroupWebhookKey(account, "webhook:")).toBe("DEFAULT");
+    expect(resolveWecomGroupWebhookKey(createAccount({ groupWebhookKey: "DEFAULT" }, true), "webhook:")).toBe("DEFAULT");
+  });
+
+  it("refuses member targets and webhook: targets without a key", () => {
+    expect(() => resolveWecomGroupWebhookKey(createAccount({ groupWebhookKey: "DEFAULT" }), "alice")).toThrow(/not a group chat/);
+    expect(() => resolveWecomGroupWebhookKey(createAccount({}), "webhook:")).toThrow(/No WeCom group webhook key/);
+    expect(resolveWecomGroupWebhookKey(createAccount({}), "alice")).toBeUndefined();
+  });
+});
+
+describe("sendGroupWebhookText", () => {
+  it("splits long markdown into 4096-byte robot messages", async () => {
+    await withApiStub(respondRobot, async (baseUrl, requests) => {
+      const client = new WecomApiClient(createAccount({ apiBaseUrl: baseUrl }));
+      const paragraphs = Array.from({ length: 40 }, (_, index) => `**第 ${index + 1} 段** ${"内容".repeat(60)}`);
+      await sendGroupWebhookText({ client, key: "ROBOT-KEY", text: paragraphs.join("\n\n") });
+
+      expect(requests.length).toBeGreaterThan(1);
+      for (const req of requests) {
+        expect(req.path).toBe("/cgi-bin/webhook/send");
+        expect(req.query.get("key")).toBe("ROBOT-KEY");
+        expect(req.query.has("access_token")).toBe(false);
+        expect(req.body.msgtype).toBe("markdown");
+        const content = (req.body.markdown as { content: string }).content;
+        expect(Buffer.byteLength(content, "utf8")).toBeLessThanOrEqual(4096);
+      }
+      const contents = requests.map((req) => (req.body.markdown as { content: string }).content);
+      expect(contents.join("\n")).toContain("**第 40 段**");
+    });
+  });
+
+  it("sends text without markdown formatting as 2048-byte text messages", async () => {
+    await withApiStub(respondRobot, async (baseUrl, requests) => {
+      const client = new WecomApiClient(createAccount({ apiBaseUrl: baseUrl }));
+      await sendGroupWebhookText({ client, key: "ROBOT-KEY", text: "明天上午十点停机维护。\n\n".repeat(200).trim() });
+
+      expect(requests.length).toBeGreaterThan(1);
+      for (const req of requests) {
+        expect(req.body.msgtype).toBe("text");
+        expect(Buffer.byteLength((req.body.text as { content: string }).content, "utf8")).toBeLessThanOrEqual(2048);
+      }
+    });
+  });
+
+  it("stops at the first rejected message", async () => {
+    await withApiStub(() => ({ errcode: 93000, errmsg: "invalid webhook url" }), async (baseUrl, requests) => {
+      const client = new WecomApiClient(createAccount({ apiBaseUrl: baseUrl }));
+      await expect(sendGroupWebhookText({ client, key: "ROBOT-KEY", text: "通知\n\n".repeat(1000) })).rejects.toThrow(/93000/);
+      expect(requests).toHaveLength(1);
+    });
+  });
+});
+
+describe("sendGroupWebhookMedia", () => {
+  it("sends small PNG images inline as base64 with their md5", async () => {
+    await withApiStub(respondRobot, async (baseUrl, requests) => {
+      const client = new WecomApiClient(createAccount({ apiBaseUrl: baseUrl }));
+      const buffer = Buffer.from("fake png bytes");
+      await sendGroupWebhookMedia({ client, key: "ROBOT-KEY", buffer, filename: "chart.png", contentType: "image/png" });
+
+      expect(requests.map((req) => req.path)).toEqual(["/cgi-bin/webhook/send"]);
+      expect(requests[0]!.body).toEqual({
+        msgtype: "image",
+        image: { base64: buffer.toString("base64"), md5: crypto.createHash("md5").update(buffer).digest("hex") },
+      });
+    });
+  });
+
+  it("uploads other files through upload_media and sends them as file messages", async () => {
+    await withApiStub(respondRobot, async (baseUrl, requests) => {
+      const client = new WecomApiClient(createAccount({ apiBaseUrl: baseUrl }));
+      await sendGroupWebhookMedia({ client, key: "ROBOT-KEY", buffer: Buffer.from("%PDF-1.4"), filename: "report.pdf" });
+
+      expect(requests.map((req) => req.path)).toEqual(["/cgi-bin/webhook/upload_media", "/cgi-bin/webhook/send"]);
+      expect(requests[0]!.query.get("key")).toBe("ROBOT-KEY");
+      expect(requests[0]!.query.get("type")).toBe("file");
+      expect(requests[1]!.body).toEqual({ msgtype: "file", file: { media_id: "ROBOT-MEDIA-1" } });
+    });
+  });
+
+  it("sends images the robot cannot show inline as files", async () => {
+    await withApiStub(respondRobot, async (baseUrl, requests) => {
+      const client = new WecomApiClient(createAccount({ apiBaseUrl: baseUrl }));
+      // 超过 2MB 的 JPG，以及 JPG/PNG 以外的格式
+      await sendGroupWebhookMedia({
+        client,
+        key: "ROBOT-KEY",
+        buffer: Buffer.alloc(2 * 1024 * 1024 + 1),
+        filename: "photo.jpg",
+        contentType: "image/jpeg",
+      });
+      await sendGroupWebhookMedia({ client, key: "ROBOT-KEY", buffer: Buffer.from("GIF89a"), filename: "anim.gif" });
+
+      expect(requests.map((req) => req.path)).toEqual([
+        "/cgi-bin/webhook/upload_media",
+        "/cgi-bin/webhook/send",
+        "/cgi-bin/webhook/upload_media",
+        "/cgi-bin/webhook/send",
+      ]);
+      expect(requests.filter((req) => req.body.msgtype).every((req) => req.body.msgtype === "file")).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * 群机器人 webhook 发送
+ * 只有群机器人 key（cgi-bin/webhook/send?key=…）时，无需企业凭证即可向机器人所在的群发送主动消息
+ * @see https://developer.work.weixin.qq.com/document/path/91770
+ */
+
+import crypto from "node:crypto";
+
+import {
+  resolveGroupWebhookMediaType,
+  WECOM_GROUP_WEBHOOK_MARKDOWN_MAX_BYTES,
+  WECOM_GROUP_WEBHOOK_TEXT_MAX_BYTES,
+  type WecomApiClient,
+  type WecomGroupWebhookMessage,
+} from "./api.js";
+import { splitTextByUtf8Bytes } from "./chunk.js";
+import { resolveWecomTextMessage } from "./format.js";
+import type { ResolvedWecomAccount } from "./types.js";
+
+// 显式指定通过群机器人发送的目标前缀，例如 `webhook:` 或 `webhook:<chatid>`
+const WEBHOOK_TARGET_PREFIX = "webhook:";
+
+/**
+ * 解析发送目标对应的群机器人 key
+ * 按 chatid 精确匹配 groupWebhookKeys；未匹配时，默认 groupWebhookKey 只用于群聊（wr 开头的 chatid）
+ * 或以 `webhook:` 显式标记的目标，且群聊仅在未配置出站 API 时使用
+ * 群机器人只能发到它所在的群，发给成员的消息不能退回到默认 key，此时抛出错误
+ */
+export function resolveWecomGroupWebhookKey(account: ResolvedWecomAccount, target: string): string | undefined {
+  const explicit = target.startsWith(WEBHOOK_TARGET_PREFIX);
+  const chatId = explicit ? target.slice(WEBHOOK_TARGET_PREFIX.length).trim() : target;
+  const perChat = chatId ? account.config.groupWebhookKeys?.[chatId]?.trim() : undefined;
+  if (perChat) return perChat;
+
+  const fallback = account.config.groupWebhookKey?.trim() || undefined;
+  if (explicit) {
+    if (!fallback) throw new Error(`No WeCom group webhook key configured for target ${target}`);
+    return fallback;
+  }
+  if (account.outboundConfigured || !fallback) return undefined;
+  if (!target.startsWith("wr")) {
+    throw new Error(`WeCom target ${target} is not a group chat; groupWebhookKey only posts to its own group`);
+  }
+  return fallback;
+}
+
+/**
+ * 通过群机器人发送文本，消息类型见 resolveWecomTextMessage
+ * 超过上限（text 2048 字节、markdown 4096 字节）时分多条依次发送，遇到失败即停止并抛出错误
+ */
+export async function sendGroupWebhookText(params: {
+  client: WecomApiClient;
+  key: string;
+  text: string;
+  sequenceMarkers?: boolean;
+}): Promise<void> {
+  const { client, key, text, sequenceMarkers = true } = params;
+  const message = resolveWecomTextMessage(text);
+  const maxBytes = message.msgtype === "markdown" ? WECOM_GROUP_WEBHOOK_MARKDOWN_MAX_BYTES : WECOM_GROUP_WEBHOOK_TEXT_MAX_BYTES;
+  for (const content of splitTextByUtf8Bytes(message.content, maxBytes, { sequenceMarkers })) {
+    await client.sendGroupWebhookMessage({
+      key,
+      message: message.msgtype === "markdown"
+        ? { msgtype: "markdown", markdown: { content } }
+        : { msgtype: "text", text: { content } },
+    });
+  }
+}
+
+/**
+ * 通过群机器人发送附件：2MB 以内的 JPG/PNG 以 base64 图片发送，其他文件先通过 upload_media 上传
+ */
+export async function sendGroupWebhookMedia(params: {
+  client: WecomApiClient;
+  key: string;
+  buffer: Buffer;
+  filename: string;
+  contentType?: string;
+}): Promise<void> {
+  const { client, key, buffer, filename, contentType } = params;
+  const type = resolveGroupWebhookMediaType({ contentType, filename, size: buffer.length });
+  const message: WecomGroupWebhookMessage = type === "image"
+    ? {
+      msgtype: "image",
+      image: {
+        base64: buffer.toString("base64"),
+        md5: crypto.createHash("md5").update(buffer).digest("hex"),
+      },
+    }
+    : {
+      msgtype: "file",
+      file: { media_id: await client.uploadGroupWebhookMedia({ key, type: "file", buffer, filename, contentType }) },
+    };
+  await client.sendGroupWebhookMessage({ key, message });
+}
@@ -0,0 +1,130 @@
+/**
+ * 入站媒体
+ * 用户发送的图片、文件保存到会话对应的媒体目录，通过入站上下文以路径形式传给 agent，
+ * 不再把 base64 写入消息正文；较小的文本文件直接提取内容放入正文
+ */
+
+import crypto from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export type WecomInboundMedia = {
+  path: string;
+  contentType: string;
+  filename?: string;
+};
+
+// 可以直接作为文本读入的文件扩展名
+const TEXT_FILE_EXTENSIONS = new Set([
+  ".txt", ".md", ".markdown", ".csv", ".tsv", ".json", ".jsonl", ".yaml", ".yml", ".xml", ".html", ".htm",
+  ".log", ".ini", ".toml", ".conf", ".sql", ".sh", ".js", ".mjs", ".cjs", ".ts", ".tsx", ".jsx", ".py",
+  ".java", ".kt", ".go", ".rs", ".rb", ".php", ".c", ".h", ".cpp", ".hpp", ".cs", ".swift", ".css",
+]);
+const TEXT_CONTENT_TYPES = new Set(["application/json", "application/xml", "application/x-yaml", "application/javascript"]);
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/jpg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/bmp": ".bmp",
+};
+
+function sanitizePathSegment(value: string): string {
+  return value.replace(/[^\w.-]+/g, "_").replace(/^\.+/, "_") || "_";
+}
+
+// 文件名只去掉路径分隔符和控制字符，保留中文等字符
+function sanitizeFilename(filename: string): string {
+  const base = path.basename(filename.replace(/\\/g, "/"));
+  const cleaned = Array.from(base, (ch) => (ch.charCodeAt(0) < 0x20 || ':*?"<>|'.includes(ch) ? "_" : ch)).join("");
+  return cleaned.replace(/^\.+/, "_") || "file";
+}
+
+/**
+ * 会话的媒体目录：与会话存储同级的 wecom/media/<sessionKey>
+ */
+export function resolveInboundMediaDir(storePath: string, sessionKey: string): string {
+  return path.join(path.dirname(storePath), "wecom", "media", sanitizePathSegment(sessionKey));
+}
+
+function normalizeContentType(contentType: string): string {
+  return contentType.split(";")[0]?.trim().toLowerCase() || "application/octet-stream";
+}
+
+/**
+ * 保存入站媒体，文件名取内容 md5（文件保留原文件名），相同内容只保存一份
+ */
+export async function saveInboundMedia(params: {
+  dir: string;
+  buffer: Buffer;
+  contentType: string;
+  filename?: string;
+}): Promise<WecomInboundMedia> {
+  const { dir, buffer, filename } = params;
+  const contentType = normalizeContentType(params.contentType);
+  const md5 = crypto.createHash("md5").update(buffer).digest("hex");
+  const name = filename
+    ? `${md5.slice(0, 12)}-${sanitizeFilename(filename)}`
+    : `${md5}${EXTENSIONS[contentType] ?? ""}`;
+  const filePath = path.join(dir, name);
+
+  await mkdir(dir, { recursive: true });
+  await writeFile(filePath, buffer);
+  return { path: filePath, contentType, filename };
+}
+
+/**
+ * 根据文件头识别图片类型
+ */
+export function sniffImageContentType(buffer: Buffer): string | null {
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return "image/jpeg";
+  const head = buffer.subarray(0, 12).toString("latin1");
+  if (head.startsWith("GIF87a") || head.startsWith("GIF89a")) return "image/gif";
+  if (head.startsWith("RIFF") && head.slice(8, 12) === "WEBP") return "image/webp";
+  if (head.startsWith("BM")) return "image/bmp";
+  return null;
+}
+
+/**
+ * 提取文本类文件的内容；二进制文件、非 UTF-8 或超过 maxBytes 时返回 null
+ */
+export function extractInboundText(params: {
+  buffer: Buffer;
+  contentType: string;
+  filename?: string;
+  maxBytes: number;
+}): string | null {
+  const { buffer, filename, maxBytes } = params;
+  const contentType = normalizeContentType(params.contentType);
+  const extension = filename ? path.extname(filename).toLowerCase() : "";
+  const textLike = TEXT_FILE_EXTENSIONS.has(extension) || contentType.startsWith("text/") || TEXT_CONTENT_TYPES.has(contentType);
+  if (!textLike || buffer.length > maxBytes || buffer.includes(0)) return null;
+
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 构建入站上下文中的媒体字段（单个字段取第一个媒体，复数字段包含全部）
+ * MediaUrl 同样指向解密后的本地文件：企业微信的媒体 URL 返回的是加密内容
+ */
+export function buildInboundMediaContext(media: WecomInboundMedia[]): Record<string, unknown> {
+  const [first] = media;
+  if (!first) return {};
+  return {
+    MediaPath: first.path,
+    MediaUrl: first.path,
+    MediaType: first.contentType,
+    MediaPaths: media.map((item) => item.path),
+    MediaUrls: media.map((item) => item.path),
+    MediaTypes: media.map((item) => item.contentType),
+  };
+}
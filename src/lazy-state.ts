@@ -0,0 +1,38 @@
+/**
+ * 按需加载的本地状态（素材缓存、反馈日志等）
+ * 首次访问时加载一次，加载失败时下次访问重新加载；写入按调用顺序串行执行，
+ * 避免并发保存时旧快照覆盖新快照，或追加顺序与内存状态不一致
+ */
+
+export type WecomLazyState<T> = {
+  get: () => Promise<T>;
+  write: (task: () => Promise<void>) => Promise<void>;
+};
+
+export function createLazyState<T>(load: () => Promise<T>): WecomLazyState<T> {
+  let value: { current: T } | null = null;
+  let loading: Promise<T> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  return {
+    get: async () => {
+      if (value) return value.current;
+      loading ??= load().then(
+        (loaded) => {
+          value = { current: loaded };
+          return loaded;
+        },
+        (err: unknown) => {
+          loading = null;
+          throw err;
+        },
+      );
+      return await loading;
+    },
+    write: async (task) => {
+      // 前一次写入失败不影响后续写入
+      writing = writing.catch(() => {}).then(task);
+      await writing;
+    },
+  };
+}
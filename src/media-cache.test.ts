@@ -0,0 +1,102 @@
+import crypto from "node:crypto";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import type { WecomApiClient } from "./api.js";
+import {
+  MEDIA_CACHE_TTL_MS,
+  createFileMediaCache,
+  createMemoryMediaCache,
+  getWecomMediaCache,
+  uploadMediaWithCache,
+} from "./media-cache.js";
+import { setWecomRuntime } from "./runtime.js";
+import { createFakeRuntime } from "./test-helpers.js";
+
+function createFakeClient() {
+  const uploads: string[] = [];
+  const client = {
+    uploadMedia: async ({ type, filename }: { type: string; filename: string }) => {
+      uploads.push(`${type}:${filename}`);
+      return `MEDIA-${uploads.length}`;
+    },
+  } as unknown as WecomApiClient;
+  return { client, uploads };
+}
+
+describe("uploadMediaWithCache", () => {
+  it("reuses the media_id for identical content and type", async () => {
+    const { client, uploads } = createFakeClient();
+    const cache = createMemoryMediaCache();
+    const buffer = Buffer.from("chart");
+
+    const first = await uploadMediaWithCache({ client, cache, type: "image", buffer, filename: "a.png" });
+    const second = await uploadMediaWithCache({ client, cache, type: "image", buffer, filename: "b.png" });
+    const asFile = await uploadMediaWithCache({ client, cache, type: "file", buffer, filename: "a.png" });
+
+    expect(first).toBe("MEDIA-1");
+    expect(second).toBe("MEDIA-1");
+    expect(asFile).toBe("MEDIA-2");
+    expect(uploads).toEqual(["image:a.png", "file:a.png"]);
+  });
+
+  it("uploads the same file bytes again under a different filename", async () => {
+    const { client, uploads } = createFakeClient();
+    const cache = createMemoryMediaCache();
+    const buffer = Buffer.from("%PDF-1.4 report");
+
+    expect(await uploadMediaWithCache({ client, cache, type: "file", buffer, filename: "q1.pdf" })).toBe("MEDIA-1");
+    expect(await uploadMediaWithCache({ client, cache, type: "file", buffer, filename: "q1.pdf" })).toBe("MEDIA-1");
+    expect(await uploadMediaWithCache({ client, cache, type: "file", buffer, filename: "q2.pdf" })).toBe("MEDIA-2");
+    expect(uploads).toEqual(["file:q1.pdf", "file:q2.pdf"]);
+  });
+
+  it("uploads again once the cached entry has expired", async () => {
+    const { client, uploads } = createFakeClient();
+    const buffer = Buffer.from("logo");
+    const md5 = crypto.createHash("md5").update(buffer).digest("hex");
+    const cache = createMemoryMediaCache([
+      { md5, type: "image", mediaId: "STALE", createdAt: Date.now() - MEDIA_CACHE_TTL_MS - 1 },
+    ]);
+
+    expect(await cache.get(md5, "image")).toBeUndefined();
+    expect(await uploadMediaWithCache({ client, cache, type: "image", buffer, filename: "logo.png" })).toBe("MEDIA-1");
+    expect(uploads).toHaveLength(1);
+  });
+});
+
+describe("createFileMediaCache", () => {
+  let dir: string | null = null;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  it("persists entries across instances", async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "wecom-media-cache-"));
+    const filePath = path.join(dir, "media-default.json");
+
+    await createFileMediaCache(filePath).set({ md5: "abc", type: "voice", mediaId: "VOICE-1", createdAt: Date.now() });
+
+    const reloaded = createFileMediaCache(filePath);
+    expect(await reloaded.get("abc", "voice")).toBe("VOICE-1");
+    expect(await reloaded.get("abc", "file")).toBeUndefined();
+  });
+
+  it("writes the account cache to the state directory once the runtime is ready", async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "wecom-media-cache-"));
+
+    // 运行时就绪前（如命令行单次发送）只能使用内存缓存
+    expect(getWecomMediaCache("cli")).toBe(getWecomMediaCache("cli"));
+
+    setWecomRuntime(createFakeRuntime(async () => {}, { storePath: path.join(dir, "sessions.json") }));
+    await getWecomMediaCache("cli").set({ md5: "abc", type: "image", mediaId: "IMAGE-1", createdAt: Date.now() });
+
+    const reloaded = createFileMediaCache(path.join(dir, "wecom", "media-cli.json"));
+    expect(await reloaded.get("abc", "image")).toBe("IMAGE-1");
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * 临时素材缓存
+ * 企业微信临时素材 media_id 有效期 3 天，按 内容 md5 + 素材类型 缓存，避免重复上传相同内容
+ * 文件素材的文件名随 media_id 保存，接收方看到的是上传时的文件名，因此文件还需按文件名区分
+ */
+
+import crypto from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { OpenclawConfig } from "openclaw/plugin-sdk";
+
+import type { WecomApiClient, WecomMediaType } from "./api.js";
+import { createLazyState } from "./lazy-state.js";
+import { getWecomRuntime, resolveWecomStateDir } from "./runtime.js";
+
+// 提前于 3 天有效期过期，避免使用即将失效的 media_id
+export const MEDIA_CACHE_TTL_MS = 2.5 * 24 * 60 * 60 * 1000;
+
+export type WecomMediaCacheEntry = {
+  md5: string;
+  type: WecomMediaType;
+  filename?: string; // 仅 file 类型记录
+  mediaId: string;
+  createdAt: number;
+};
+
+export type WecomMediaCache = {
+  get: (md5: string, type: WecomMediaType, filename?: string) => Promise<string | undefined>;
+  set: (entry: WecomMediaCacheEntry) => Promise<void>;
+};
+
+type MediaCacheFile = {
+  version: 1;
+  entries: WecomMediaCacheEntry[];
+};
+
+function cacheKey(md5: string, type: WecomMediaType, filename?: string): string {
+  return type === "file" ? `${type}:${md5}:${filename ?? ""}` : `${type}:${md5}`;
+}
+
+function isFresh(entry: WecomMediaCacheEntry, now: number): boolean {
+  return now - entry.createdAt < MEDIA_CACHE_TTL_MS;
+}
+
+function createCache(params: {
+  load: () => Promise<WecomMediaCacheEntry[]>;
+  save: (entries: WecomMediaCacheEntry[]) => Promise<void>;
+}): WecomMediaCache {
+  const state = createLazyState(async () => {
+    const loaded = await params.load();
+    const now = Date.now();
+    return new Map(
+      loaded.filter((entry) => isFresh(entry, now)).map((entry) => [cacheKey(entry.md5, entry.type, entry.filename), entry]),
+    );
+  });
+
+  return {
+    get: async (md5, type, filename) => {
+      const map = await state.get();
+      const key = cacheKey(md5, type, filename);
+      const entry = map.get(key);
+      if (!entry) return undefined;
+      if (!isFresh(entry, Date.now())) {
+        map.delete(key);
+        return undefined;
+      }
+      return entry.mediaId;
+    },
+    set: async (entry) => {
+      const map = await state.get();
+      const now = Date.now();
+      map.set(cacheKey(entry.md5, entry.type, entry.filename), entry);
+      for (const [key, existing] of map) {
+        if (!isFresh(existing, now)) map.delete(key);
+      }
+      const snapshot = [...map.values()];
+      await state.write(() => params.save(snapshot));
+    },
+  };
+}
+
+export function createMemoryMediaCache(initial: WecomMediaCacheEntry[] = []): WecomMediaCache {
+  return createCache({ load: async () => [...initial], save: async () => {} });
+}
+
+/**
+ * 基于 JSON 文件的素材缓存（先写临时文件再 rename，避免写到一半时崩溃损坏文件）
+ */
+export function createFileMediaCache(filePath: string): WecomMediaCache {
+  return createCache({
+    load: async () => {
+      try {
+        const raw = await readFile(filePath, "utf8");
+        const parsed = JSON.parse(raw) as Partial<MediaCacheFile>;
+        return Array.isArray(parsed.entries) ? parsed.entries : [];
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw err;
+      }
+    },
+    save: async (entries) => {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      const data: MediaCacheFile = { version: 1, entries };
+      await writeFile(tmpPath, JSON.stringify(data), "utf8");
+      await rename(tmpPath, filePath);
+    },
+  });
+}
+
+export function resolveMediaCachePath(stateDir: string, accountId: string): string {
+  return path.join(stateDir, `media-${accountId}.json`);
+}
+
+const caches = new Map<string, WecomMediaCache>();
+// 运行时未就绪、无法解析状态目录时使用的内存缓存
+const memoryCaches = new Map<string, WecomMediaCache>();
+
+/**
+ * 获取账号的素材缓存，保存在状态目录中；未传入 cfg 时使用运行时的当前配置
+ * 因此不经过 startAccount 的发送（如命令行单次发送）同样落盘。运行时未就绪时只保存在内存中，
+ * 就绪后的调用改用落盘的缓存
+ */
+export function getWecomMediaCache(accountId: string, cfg?: OpenclawConfig): WecomMediaCache {
+  const existing = caches.get(accountId);
+  if (existing) return existing;
+
+  let filePath: string;
+  try {
+    filePath = resolveMediaCachePath(resolveWecomStateDir(cfg ?? getWecomRuntime().config.loadConfig()), accountId);
+  } catch {
+    let memory = memoryCaches.get(accountId);
+    if (!memory) {
+      memory = createMemoryMediaCache();
+      memoryCaches.set(accountId, memory);
+    }
+    return memory;
+  }
+
+  const cache = createFileMediaCache(filePath);
+  caches.set(accountId, cache);
+  memoryCaches.delete(accountId);
+  return cache;
+}
+
+/**
+ * 上传临时素材，相同内容（文件还需文件名相同）在有效期内直接复用已有 media_id
+ * 缓存读写失败不影响上传
+ */
+export async function uploadMediaWithCache(params: {
+  client: WecomApiClient;
+  cache: WecomMediaCache;
+  type: WecomMediaType;
+  buffer: Buffer;
+  filename: string;
+  contentType?: string;
+  log?: (message: string) => void;
+}): Promise<string> {
+  const { client, cache, type, buffer, filename, contentType, log } = params;
+  const md5 = crypto.createHash("md5").update(buffer).digest("hex");
+
+  const cachedFilename = type === "file" ? filename : undefined;
+  const cached = await cache.get(md5, type, cachedFilename).catch((err: unknown) => {
+    log?.(`[wecom] 读取素材缓存失败: ${String(err)}`);
+    return undefined;
+  });
+  if (cached) return cached;
+
+  const mediaId = await client.uploadMedia({ type, buffer, filename, contentType });
+  await cache.set({ md5, type, filename: cachedFilename, mediaId, createdAt: Date.now() }).catch((err: unknown) => {
+    log?.(`[wecom] 写入素材缓存失败: ${String(err)}`);
+  });
+  return mediaId;
+}
@@ -0,0 +1,185 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { mkdtemp, readFile, readdir, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import type { OpenclawConfig, PluginRuntime } from "openclaw/plugin-sdk";
+
+import { registerWecomWebhookTarget } from "./monitor.js";
+import { setWecomRuntime } from "./runtime.js";
+import {
+  TEST_ENCODING_AES_KEY as encodingAESKey,
+  createFakeRuntime,
+  createTestAccount,
+  encryptWecomMedia,
+  postCallback,
+  serveWebhook,
+  waitFor,
+  withServer,
+} from "./test-helpers.js";
+
+const png = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from("pixels")]);
+
+// 智能机器人的媒体 URL 返回用 encodingAESKey 加密后的内容
+const mediaFiles: Record<string, { data: Buffer; filename?: string }> = {
+  "/media/photo": { data: png },
+  "/media/notes": { data: Buffer.from("name,score\n张三,90\n"), filename: "成绩.csv" },
+  "/media/report": { data: Buffer.from("%PDF-1.4\u0000binary"), filename: "report.pdf" },
+};
+
+// 同一个服务同时提供回调地址和媒体下载
+async function serveMediaOrWebhook(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const media = mediaFiles[req.url ?? ""];
+  if (!media) {
+    await serveWebhook(req, res);
+    return;
+  }
+  res.setHeader("Content-Type", "application/octet-stream");
+  if (media.filename) {
+    res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${encodeURIComponent(media.filename)}`);
+  }
+  res.end(encryptWecomMedia({ encodingAESKey, data: media.data }));
+}
+
+describe("inbound media", () => {
+  const account = createTestAccount({ config: { dm: { policy: "open" }, downloadAllowHosts: ["127.0.0.1"] } });
+  let unregister: () => void = () => {};
+  let dir = "";
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "wecom-media-"));
+    unregister = registerWecomWebhookTarget({
+      account,
+      config: {} as OpenclawConfig,
+      runtime: {},
+      core: {} as PluginRuntime,
+      path: "/hook",
+    });
+  });
+
+  afterEach(async () => {
+    unregister();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("saves images to the session media directory and passes them as media paths", async () => {
+    let ctx: Record<string, unknown> | undefined;
+    setWecomRuntime(createFakeRuntime(async (params) => {
+      ctx = params.ctx as Record<string, unknown>;
+    }, { storePath: path.join(dir, "sessions.json") }));
+
+    await withServer(serveMediaOrWebhook, async (baseUrl) => {
+      const imageUrl = `${baseUrl}/media/photo`;
+      await postCallback(baseUrl, {
+        msgid: "MSGID-IMAGE",
+        chattype: "single",
+        from: { userid: "alice" },
+        msgtype: "mixed",
+        mixed: {
+          msg_item: [
+            { msgtype: "text", text: { content: "看看这张图" } },
+            { msgtype: "image", image: { url: imageUrl } },
+          ],
+        },
+      });
+
+      const received = await waitFor(() => ctx);
+      const mediaPath = received.MediaPath as string;
+      expect(path.dirname(mediaPath)).toBe(path.join(dir, "wecom", "media", "wecom_alice"));
+      expect(await readFile(mediaPath)).toEqual(png);
+      expect(received).toMatchObject({
+        MediaPaths: [mediaPath],
+        MediaUrl: mediaPath,
+        MediaUrls: [mediaPath],
+        MediaTypes: ["image/png"],
+        RawBody: `看看这张图\n\n[图片: ${mediaPath}]`,
+      });
+      expect(received.Body).not.toContain("base64");
+    });
+  });
+
+  it("renders quoted messages into the envelope body and downloads quoted images", async () => {
+    let ctx: Record<string, unknown> | undefined;
+    setWecomRuntime(createFakeRuntime(async (params) => {
+      ctx = params.ctx as Record<string, unknown>;
+    }, { storePath: path.join(dir, "sessions.json") }));
+
+    await withServer(serveMediaOrWebhook, async (baseUrl) => {
+      await postCallback(baseUrl, {
+        msgid: "MSGID-QUOTE",
+        chattype: "single",
+        from: { userid: "dave" },
+        msgtype: "text",
+        text: { content: "这个怎么解决？" },
+        quote: {
+          msgtype: "mixed",
+          mixed: {
+            msg_item: [
+              { msgtype: "text", text: { content: "构建报错\nexit code 1" } },
+              { msgtype: "image", image: { url: `${baseUrl}/media/photo` } },
+            ],
+          },
+        },
+      });
+
+      const received = await waitFor(() => ctx);
+      const mediaPath = received.MediaPath as string;
+      expect(await readFile(mediaPath)).toEqual(png);
+      expect(received.Body).toBe(`[引用消息]\n> 构建报错\n> exit code 1\n>\n> [图片: ${mediaPath}]\n\n这个怎么解决？`);
+      expect(received.RawBody).toBe("这个怎么解决？");
+      expect(received.CommandBody).toBe("这个怎么解决？");
+    });
+  });
+
+  it("decrypts text files and inlines their content into the body", async () => {
+    let ctx: Record<string, unknown> | undefined;
+    setWecomRuntime(createFakeRuntime(async (params) => {
+      ctx = params.ctx as Record<string, unknown>;
+    }, { storePath: path.join(dir, "sessions.json") }));
+
+    await withServer(serveMediaOrWebhook, async (baseUrl) => {
+      await postCallback(baseUrl, {
+        msgid: "MSGID-TEXT-FILE",
+        chattype: "single",
+        from: { userid: "bob" },
+        msgtype: "file",
+        file: { url: `${baseUrl}/media/notes` },
+      });
+
+      const received = await waitFor(() => ctx);
+      const savedPath = path.join(dir, "wecom", "media", "wecom_bob", (await readdir(path.join(dir, "wecom", "media", "wecom_bob")))[0]!);
+      expect(savedPath.endsWith("-成绩.csv")).toBe(true);
+      expect(received.RawBody).toBe(
+        `[用户发送了文件: 成绩.csv，已保存到 ${savedPath}]\n<file name="成绩.csv">\nname,score\n张三,90\n</file>`,
+      );
+      expect(received.MediaPaths).toBeUndefined();
+    });
+  });
+
+  it("passes binary files as attachments", async () => {
+    let ctx: Record<string, unknown> | undefined;
+    setWecomRuntime(createFakeRuntime(async (params) => {
+      ctx = params.ctx as Record<string, unknown>;
+    }, { storePath: path.join(dir, "sessions.json") }));
+
+    await withServer(serveMediaOrWebhook, async (baseUrl) => {
+      await postCallback(baseUrl, {
+        msgid: "MSGID-BINARY-FILE",
+        chattype: "single",
+        from: { userid: "carol" },
+        msgtype: "file",
+        file: { url: `${baseUrl}/media/report` },
+      });
+
+      const received = await waitFor(() => ctx);
+      const mediaPath = received.MediaPath as string;
+      expect(await readFile(mediaPath)).toEqual(mediaFiles["/media/report"]!.data);
+      expect(received).toMatchObject({
+        RawBody: `[用户发送了文件: report.pdf，已保存到 ${mediaPath}]`,
+        MediaTypes: ["application/octet-stream"],
+      });
+    });
+  });
+});
@@ -0,0 +1,319 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { describe, expect, it } from "vitest";
+
+import type { ResolvedWecomAccount } from "./types.js";
+import { sendProactiveMessage } from "./monitor.js";
+
+type RecordedRequest = { path: string; body: Record<string, unknown> };
+
+async function withStub(
+  respond: (body: Record<string, unknown>, path: string) => { status?: number; json?: unknown; file?: Buffer },
+  fn: (baseUrl: string, requests: RecordedRequest[]) => Promise<void>,
+) {
+  const requests: RecordedRequest[] = [];
+  const usedResponseUrls = new Set<string>();
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString("utf8");
+      // multipart 上传等非 JSON 请求体只记录路径
+      const body = raw.startsWith("{") ? (JSON.parse(raw) as Record<string, unknown>) : {};
+      requests.push({ path: req.url ?? "/", body });
+      // 与企业微信一致：每个 response_url 只接受一次调用
+      if ((req.url ?? "").startsWith("/reply")) {
+        if (usedResponseUrls.has(req.url ?? "")) {
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify({ errcode: 60001, errmsg: "response_url already used" }));
+          return;
+        }
+        usedResponseUrls.add(req.url ?? "");
+      }
+      const reply = respond(body, req.url ?? "/");
+      res.statusCode = reply.status ?? 200;
+      if (reply.file) {
+        res.setHeader("Content-Type", "application/pdf");
+        res.end(reply.file);
+        return;
+      }
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(reply.json ?? { errcode: 0, errmsg: "ok" }));
+    });
+  });
+  await new Promise<void>((resolve) => {
+    server.listen(0, "127.0.0.1", () => resolve());
+  });
+  const address = server.address() as AddressInfo | null;
+  if (!address) throw new Error("missing server address");
+  try {
+    await fn(`http://127.0.0.1:${address.port}`, requests);
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
+
+const botOnlyAccount: ResolvedWecomAccount = {
+  accountId: "default",
+  enabled: true,
+  configured: true,
+  token: "test-token",
+  encodingAESKey: "abcdefghijklmnopqrstuvwxyz0123456789ABCDEFG",
+  receiveId: "",
+  outboundConfigured: false,
+  config: {},
+};
+
+describe("sendProactiveMessage via response_url", () => {
+  it("posts one markdown message with file and image links without corp credentials", async () => {
+    await withStub(() => ({}), async (baseUrl, requests) => {
+      const logs: string[] = [];
+      const ok = await sendProactiveMessage({
+        account: botOnlyAccount,
+        target: "USERID",
+        isGroup: false,
+        content: "final answer",
+        images: [
+          { base64: "aGVsbG8=", md5: "5d41402abc4b2a76b9719d911017c592", url: "https://example.com/chart.png" },
+          { base64: "d29ybGQ=", md5: "7d793037a0760186574b0282f2f435e7" },
+        ],
+        files: [{ url: "https://example.com/report.pdf", filename: "report.pdf" }],
+        responseUrl: `${baseUrl}/reply?token=abc`,
+        responseUrlExpiresAt: Date.now() + 60_000,
+        log: (message) => logs.push(message),
+      });
+
+      expect(ok).toBe(true);
+      expect(requests).toHaveLength(1);
+      expect(requests[0]!.path).toBe("/reply?token=abc");
+      expect(requests[0]!.body).toEqual({
+        msgtype: "markdown",
+        markdown: {
+          content: "final answer\n\n📎 [report.pdf](https://example.com/report.pdf)\n\n🖼️ [图片](https://example.com/chart.png)",
+        },
+      });
+      // 没有链接的图片无法通过 response_url 发送，记录后丢弃
+      expect(logs.some((message) => message.includes("已丢弃") && message.includes("1 张图片"))).toBe(true);
+    });
+  });
+
+  it("truncates long replies to a single response_url message and drops the rest without corp credentials", async () => {
+    await withStub(() => ({}), async (baseUrl, requests) => {
+      const paragraphs = Array.from({ length: 3 }, (_, i) => `${i}${"字".repeat(4000)}`);
+      const ok = await sendProactiveMessage({
+        account: botOnlyAccount,
+        target: "USERID",
+        isGroup: false,
+        content: paragraphs.join("\n\n"),
+        images: [],
+        files: [],
+        responseUrl: `${baseUrl}/reply`,
+        responseUrlExpiresAt: Date.now() + 60_000,
+      });
+
+      expect(ok).toBe(true);
+      expect(requests).toHaveLength(1);
+      const content = (requests[0]!.body.markdown as { content: string }).content;
+      expect(Buffer.byteLength(content, "utf8")).toBeLessThanOrEqual(20_480);
+      expect(content.startsWith(paragraphs[0]!)).toBe(true);
+    });
+  });
+
+  it("reports failure when response_url rejects and no corp app is configured", async () => {
+    await withStub(() => ({ json: { errcode: 40001, errmsg: "invalid url" } }), async (baseUrl, requests) => {
+      const ok = await sendProactiveMessage({
+        account: botOnlyAccount,
+        target: "USERID",
+        isGroup: false,
+        content: "final answer",
+        images: [],
+        files: [],
+        responseUrl: `${baseUrl}/reply`,
+        responseUrlExpiresAt: Date.now() + 60_000,
+      });
+
+      expect(ok).toBe(false);
+      expect(requests).toHaveLength(1);
+    });
+  });
+
+  it("skips an expired response_url", async () => {
+    await withStub(() => ({}), async (baseUrl, requests) => {
+      const ok = await sendProactiveMessage({
+        account: botOnlyAccount,
+        target: "USERID",
+        isGroup: false,
+        content: "final answer",
+        images: [],
+        files: [],
+        responseUrl: `${baseUrl}/reply`,
+        responseUrlExpiresAt: Date.now() - 1,
+      });
+
+      expect(ok).toBe(false);
+      expect(requests).toHaveLength(0);
+    });
+  });
+});
+
+describe("sendProactiveMessage via corp API", () => {
+  // 文件桩服务在本机，需要加入下载白名单
+  function corpAccount(baseUrl: string, maxFileSizeMb?: number, downloadAllowHosts = ["127.0.0.1"]): ResolvedWecomAccount {
+    return {
+      ...botOnlyAccount,
+      corpId: "corp-id",
+      agentId: 1000002,
+      secret: "corp-secret",
+      outboundConfigured: true,
+      config: { apiBaseUrl: `${baseUrl}/cgi-bin`, maxFileSizeMb, downloadAllowHosts },
+    };
+  }
+
+  function respondCorp(body: Record<string, unknown>, path: string) {
+    if (path.startsWith("/files/")) return { file: Buffer.from("%PDF-1.4 test") };
+    if (path.startsWith("/cgi-bin/gettoken")) return { json: { errcode: 0, access_token: "TOKEN", expires_in: 7200 } };
+    if (path.startsWith("/cgi-bin/media/upload")) return { json: { errcode: 0, type: "file", media_id: "MEDIA-1" } };
+    return { json: { errcode: 0, errmsg: "ok" } };
+  }
+
+  it("sends formatted replies as markdown and plain replies as text", async () => {
+    await withStub(respondCorp, async (baseUrl, requests) => {
+      for (const content of ["## 结果\n\n**完成**，共 3 项", "- 第一项\n- *第二项*"]) {
+        await sendProactiveMessage({
+          account: corpAccount(baseUrl),
+          target: "USERID",
+          isGroup: false,
+          content,
+          images: [],
+          files: [],
+        });
+      }
+
+      const sends = requests.filter((req) => req.path.startsWith("/cgi-bin/message/send"));
+      expect(sends.map((req) => req.body)).toMatchObject([
+        { msgtype: "markdown", markdown: { content: "## 结果\n\n**完成**，共 3 项" } },
+        { msgtype: "text", text: { content: "• 第一项\n• 第二项" } },
+      ]);
+    });
+  });
+
+  it("splits long text into 2048-byte messages and reports failed chunks", async () => {
+    let textSends = 0;
+    await withStub((body, path) => {
+      if (path.startsWith("/cgi-bin/message/send") && body.msgtype === "text") {
+        textSends += 1;
+        if (textSends === 2) return { json: { errcode: 45002, errmsg: "content size out of limit" } };
+      }
+      return respondCorp(body, path);
+    }, async (baseUrl, requests) => {
+      const logs: string[] = [];
+      const paragraphs = Array.from({ length: 6 }, (_, i) => `${i}${"字".repeat(300)}`);
+      const ok = await sendProactiveMessage({
+        account: corpAccount(baseUrl),
+        target: "USERID",
+        isGroup: false,
+        content: paragraphs.join("\n\n"),
+        images: [],
+        files: [],
+        log: (message) => logs.push(message),
+      });
+
+      expect(ok).toBe(false);
+      const contents = requests
+        .filter((req) => req.path.startsWith("/cgi-bin/message/send"))
+        .map((req) => (req.body.text as { content: string }).content);
+      expect(contents).toHaveLength(3);
+      contents.forEach((content, index) => {
+        expect(content.startsWith(`(${index + 1}/3)\n`)).toBe(true);
+        expect(Buffer.byteLength(content, "utf8")).toBeLessThanOrEqual(2048);
+      });
+      expect(contents.map((content) => content.replace(/^\(\d\/3\)\n/, "")).join("\n\n")).toBe(paragraphs.join("\n\n"));
+      expect(logs.filter((message) => message.includes("主动发送文本失败"))).toEqual([
+        expect.stringContaining("(2/3)"),
+      ]);
+    });
+  });
+
+  it("sends what does not fit the single response_url message through the corp API", async () => {
+    await withStub(respondCorp, async (baseUrl, requests) => {
+      const paragraphs = Array.from({ length: 2 }, (_, i) => `${i}${"字".repeat(4000)}`);
+      const ok = await sendProactiveMessage({
+        account: corpAccount(baseUrl),
+        target: "USERID",
+        isGroup: false,
+        content: paragraphs.join("\n\n"),
+        images: [{ base64: "aGVsbG8=", md5: "5d41402abc4b2a76b9719d911017c592" }],
+        files: [],
+        responseUrl: `${baseUrl}/reply`,
+        responseUrlExpiresAt: Date.now() + 60_000,
+      });
+
+      expect(ok).toBe(true);
+      expect(requests.filter((req) => req.path.startsWith("/reply"))).toHaveLength(1);
+      const sends = requests.filter((req) => req.path.startsWith("/cgi-bin/message/send")).map((req) => req.body);
+      expect(sends.filter((body) => body.msgtype === "text").map((body) => (body.text as { content: string }).content).join(""))
+        .toContain(paragraphs[1]!.slice(0, 100));
+      expect(sends.some((body) => body.msgtype === "image")).toBe(true);
+    });
+  });
+
+  it("downloads linked files and sends them as file messages", async () => {
+    await withStub(respondCorp, async (baseUrl, requests) => {
+      const ok = await sendProactiveMessage({
+        account: corpAccount(baseUrl),
+        target: "USERID",
+        isGroup: false,
+        content: "",
+        images: [],
+        files: [{ url: `${baseUrl}/files/report.pdf`, filename: "report.pdf" }],
+      });
+
+      expect(ok).toBe(true);
+      const paths = requests.map((req) => req.path.split("?")[0]);
+      expect(paths).toContain("/files/report.pdf");
+      expect(paths).toContain("/cgi-bin/media/upload");
+      const send = requests.find((req) => req.path.startsWith("/cgi-bin/message/send"));
+      expect(send?.body).toMatchObject({ touser: "USERID", msgtype: "file", file: { media_id: "MEDIA-1" } });
+    });
+  });
+
+  it("refuses to download files from private addresses that are not allowlisted", async () => {
+    await withStub(respondCorp, async (baseUrl, requests) => {
+      const ok = await sendProactiveMessage({
+        account: corpAccount(baseUrl, undefined, []),
+        target: "USERID",
+        isGroup: false,
+        content: "",
+        images: [],
+        files: [{ url: `${baseUrl}/files/report.pdf`, filename: "report.pdf" }],
+      });
+
+      expect(ok).toBe(true);
+      expect(requests.some((req) => req.path.startsWith("/files/"))).toBe(false);
+      const send = requests.find((req) => req.path.startsWith("/cgi-bin/message/send"));
+      expect(send?.body).toMatchObject({ msgtype: "textcard" });
+    });
+  });
+
+  it("falls back to a link card when the file exceeds the size limit", async () => {
+    await withStub(respondCorp, async (baseUrl, requests) => {
+      const ok = await sendProactiveMessage({
+        account: corpAccount(baseUrl, 0),
+        target: "USERID",
+        isGroup: false,
+        content: "",
+        images: [],
+        files: [{ url: `${baseUrl}/files/report.pdf`, filename: "report.pdf" }],
+      });
+
+      expect(ok).toBe(true);
+      expect(requests.some((req) => req.path.startsWith("/cgi-bin/media/upload"))).toBe(false);
+      const send = requests.find((req) => req.path.startsWith("/cgi-bin/message/send"));
+      expect(send?.body).toMatchObject({
+        msgtype: "textcard",
+        textcard: { title: "📎 report.pdf", url: `${baseUrl}/files/report.pdf` },
+      });
+    });
+  });
+});
@@ -0,0 +1,559 @@
+import crypto from "node:crypto";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import type { OpenclawConfig, PluginRuntime } from "openclaw/plugin-sdk";
+
+import { registerWecomWebhookTarget } from "./monitor.js";
+import { createMemoryFeedbackLog, type WecomFeedbackEntry, type WecomFeedbackLog } from "./feedback-log.js";
+import { setWecomRuntime } from "./runtime.js";
+import {
+  createFakeRuntime,
+  createTestAccount,
+  postCallback,
+  serveWebhook,
+  waitFor,
+  withApiStub,
+  withServer,
+} from "./test-helpers.js";
+
+type StreamFrame = {
+  msgtype: string;
+  stream: { id: string; finish: boolean; content: string; msg_item?: Array<Record<string, unknown>> };
+  template_card?: Record<string, unknown>;
+};
+
+describe("stream refresh with incremental agent output", () => {
+  const account = createTestAccount({ config: { dm: { policy: "open" } } });
+  let unregister: () => void = () => {};
+
+  beforeEach(() => {
+    unregister = registerWecomWebhookTarget({
+      account,
+      config: {} as OpenclawConfig,
+      runtime: {},
+      core: {} as PluginRuntime,
+      path: "/hook",
+    });
+  });
+
+  afterEach(() => {
+    unregister();
+  });
+
+  it("returns partial text and tool progress before the block is delivered", async () => {
+    let step: (() => void) | null = null;
+    const nextStep = () => new Promise<void>((resolve) => {
+      step = resolve;
+    });
+    const advance = () => {
+      const resolve = step;
+      step = null;
+      resolve?.();
+    };
+
+    setWecomRuntime(createFakeRuntime(async ({ dispatcherOptions, replyOptions }) => {
+      await replyOptions?.onPartialReply?.({ text: "Hello" });
+      await nextStep();
+      await replyOptions?.onToolStart?.({ name: "search" });
+      await nextStep();
+      await replyOptions?.onPartialReply?.({ text: "Hello world" });
+      await nextStep();
+      await dispatcherOptions.deliver({ text: "Hello world" });
+    }));
+
+    await withServer(serveWebhook, async (baseUrl) => {
+      const first = await postCallback<StreamFrame>(baseUrl, {
+        msgid: "MSGID-PARTIAL",
+        chattype: "single",
+        from: { userid: "alice" },
+        msgtype: "text",
+        text: { content: "hi" },
+      });
+      const streamId = first.stream.id;
+      const refresh = () => postCallback<StreamFrame>(baseUrl, { msgtype: "stream", stream: { id: streamId } });
+
+      await waitFor(() => step !== null);
+      expect((await refresh()).stream).toMatchObject({ finish: false, content: "Hello" });
+
+      advance();
+      await waitFor(() => step !== null);
+      expect((await refresh()).stream).toMatchObject({ finish: false, content: "Hello\n\n正在调用工具…" });
+
+      advance();
+      await waitFor(() => step !== null);
+      expect((await refresh()).stream).toMatchObject({ finish: false, content: "Hello world" });
+
+      advance();
+      let frame = await refresh();
+      const start = Date.now();
+      while (!frame.stream.finish && Date.now() - start < 2000) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        frame = await refresh();
+      }
+      expect(frame.stream).toMatchObject({ finish: true, content: "Hello world" });
+    });
+  });
+
+  it("keeps partial text that arrived before its preceding block was delivered", async () => {
+    let step: (() => void) | null = null;
+    const nextStep = () => new Promise<void>((resolve) => {
+      step = resolve;
+    });
+    const advance = () => {
+      const resolve = step;
+      step = null;
+      resolve?.();
+    };
+
+    setWecomRuntime(createFakeRuntime(async ({ dispatcherOptions, replyOptions }) => {
+      await replyOptions?.onPartialReply?.({ text: "First block.\n\nSecond" });
+      await dispatcherOptions.deliver({ text: "First block." });
+      await nextStep();
+      await replyOptions?.onPartialReply?.({ text: "First block.\n\nSecond block." });
+      await nextStep();
+      await dispatcherOptions.deliver({ text: "Second block." });
+    }));
+
+    await withServer(serveWebhook, async (baseUrl) => {
+      const first = await postCallback<StreamFrame>(baseUrl, {
+        msgid: "MSGID-PARTIAL-AFTER-BLOCK",
+        chattype: "single",
+        from: { userid: "bob" },
+        msgtype: "text",
+        text: { content: "hi" },
+      });
+      const streamId = first.stream.id;
+      const refresh = () => postCallback<StreamFrame>(baseUrl, { msgtype: "stream", stream: { id: streamId } });
+
+      await waitFor(() => step !== null);
+      expect((await refresh()).stream).toMatchObject({ finish: false, content: "First block.\n\nSecond" });
+
+      advance();
+      await waitFor(() => step !== null);
+      expect((await refresh()).stream).toMatchObject({ finish: false, content: "First block.\n\nSecond block." });
+
+      advance();
+      let frame = await refresh();
+      const start = Date.now();
+      while (!frame.stream.finish && Date.now() - start < 2000) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        frame = await refresh();
+      }
+      expect(frame.stream).toMatchObject({ finish: true, content: "First block.\n\nSecond block." });
+    });
+  });
+
+  it("serializes messages in the same session and stops the in-flight run", async () => {
+    const started: string[] = [];
+    setWecomRuntime(createFakeRuntime(async ({ ctx, dispatcherOptions, replyOptions }) => {
+      started.push(String(ctx.RawBody));
+      await dispatcherOptions.deliver({ text: `working on ${String(ctx.RawBody)}` });
+      await new Promise<void>((resolve) => {
+        replyOptions?.abortSignal?.addEventListener("abort", () => resolve());
+      });
+    }));
+
+    await withServer(serveWebhook, async (baseUrl) => {
+      const send = (msgid: string, content: string) => postCallback<StreamFrame>(baseUrl, {
+        msgid,
+        chattype: "single",
+        from: { userid: "bob" },
+        msgtype: "text",
+        text: { content },
+      });
+      const refresh = (streamId: string) => postCallback<StreamFrame>(baseUrl, { msgtype: "stream", stream: { id: streamId } });
+
+      const first = await send("MSGID-Q1", "first");
+      await waitFor(() => started.length === 1);
+      const second = await send("MSGID-Q2", "second");
+
+      expect(started).toEqual(["first"]);
+      expect((await refresh(second.stream.id)).stream.content).toContain("已排队");
+
+      const stop = await send("MSGID-Q3", "/stop");
+      expect(stop.stream).toMatchObject({ finish: true, content: "已停止当前回复。" });
+
+      expect((await refresh(first.stream.id)).stream).toMatchObject({
+        finish: true,
+        content: "working on first\n\n（已停止生成）",
+      });
+      expect((await refresh(second.stream.id)).stream).toMatchObject({
+        finish: true,
+        content: "（已停止生成）",
+      });
+      expect(started).toEqual(["first"]);
+    });
+  });
+
+  it("merges queued messages into one run in merge mode", async () => {
+    unregister();
+    unregister = registerWecomWebhookTarget({
+      account: { ...account, config: { ...account.config, queue: { mode: "merge" } } },
+      config: {} as OpenclawConfig,
+      runtime: {},
+      core: {} as PluginRuntime,
+      path: "/hook",
+    });
+    const bodies: string[] = [];
+    let release: () => void = () => {};
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    setWecomRuntime(createFakeRuntime(async ({ ctx, dispatcherOptions }) => {
+      bodies.push(String(ctx.RawBody));
+      if (bodies.length === 1) await released;
+      await dispatcherOptions.deliver({ text: `answer to ${String(ctx.RawBody)}` });
+    }));
+
+    await withServer(serveWebhook, async (baseUrl) => {
+      const send = (msgid: string, content: string) => postCallback<StreamFrame>(baseUrl, {
+        msgid,
+        chattype: "single",
+        from: { userid: "mia" },
+        msgtype: "text",
+        text: { content },
+      });
+      const refresh = (streamId: string) => postCallback<StreamFrame>(baseUrl, { msgtype: "stream", stream: { id: streamId } });
+
+      await send("MSGID-M1", "first");
+      await waitFor(() => bodies.length === 1);
+      const second = await send("MSGID-M2", "second");
+      const third = await send("MSGID-M3", "third");
+
+      release();
+      await waitFor(() => bodies.length === 2);
+      expect(bodies[1]).toBe("second\n\nthird");
+      expect((await refresh(second.stream.id)).stream).toMatchObject({ finish: true, content: "（已与后续消息合并处理）" });
+      let frame = await refresh(third.stream.id);
+      const start = Date.now();
+      while (!frame.stream.finish && Date.now() - start < 2000) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        frame = await refresh(third.stream.id);
+      }
+      expect(frame.stream).toMatchObject({ finish: true, content: "answer to second\n\nthird" });
+    });
+  });
+
+  it("interrupts the active run but waits for a dispatcher that ignores the abort", async () => {
+    unregister();
+    unregister = registerWecomWebhookTarget({
+      account: { ...account, config: { ...account.config, queue: { mode: "interrupt" } } },
+      config: {} as OpenclawConfig,
+      runtime: {},
+      core: {} as PluginRuntime,
+      path: "/hook",
+    });
+    const started: string[] = [];
+    let release: () => void = () => {};
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    // 第一次运行不监听 abortSignal，直到被手动放行
+    setWecomRuntime(createFakeRuntime(async ({ ctx, dispatcherOptions }) => {
+      started.push(String(ctx.RawBody));
+      if (started.length === 1) {
+        await dispatcherOptions.deliver({ text: "partial work" });
+        await released;
+        await dispatcherOptions.deliver({ text: "late block" });
+        return;
+      }
+      await dispatcherOptions.deliver({ text: `answer to ${String(ctx.RawBody)}` });
+    }));
+
+    await withServer(serveWebhook, async (baseUrl) => {
+      const send = (msgid: string, content: string) => postCallback<StreamFrame>(baseUrl, {
+        msgid,
+        chattype: "single",
+        from: { userid: "noah" },
+        msgtype: "text",
+        text: { content },
+      });
+      const refresh = (streamId: string) => postCallback<StreamFrame>(baseUrl, { msgtype: "stream", stream: { id: streamId } });
+
+      const first = await send("MSGID-I1", "first");
+      await waitFor(() => started.length === 1);
+      const second = await send("MSGID-I2", "second");
+
+      expect((await refresh(first.stream.id)).stream).toMatchObject({
+        finish: true,
+        content: "partial work\n\n（已被新消息打断）",
+      });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(started).toEqual(["first"]);
+
+      release();
+      await waitFor(() => started.length === 2);
+      expect(started).toEqual(["first", "second"]);
+      expect((await refresh(first.stream.id)).stream.content).not.toContain("late block");
+      let frame = await refresh(second.stream.id);
+      const start = Date.now();
+      while (!frame.stream.finish && Date.now() - start < 2000) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        frame = await refresh(second.stream.id);
+      }
+      expect(frame.stream).toMatchObject({ finish: true, content: "answer to second" });
+    });
+  });
+
+  it("keeps file links in the final frame when no outbound API is configured", async () => {
+    setWecomRuntime(createFakeRuntime(async ({ dispatcherOptions }) => {
+      await dispatcherOptions.deliver({ text: "报告见 https://example.com/files/report.pdf" });
+    }));
+
+    await withServer(serveWebhook, async (baseUrl) => {
+      const first = await postCallback<StreamFrame>(baseUrl, {
+        msgid: "MSGID-FILE",
+        chattype: "single",
+        from: { userid: "carol" },
+        msgtype: "text",
+        text: { content: "report please" },
+      });
+      const refresh = () => postCallback<StreamFrame>(baseUrl, { msgtype: "stream", stream: { id: first.stream.id } });
+
+      let frame = await refresh();
+      const start = Date.now();
+      while (!frame.stream.finish && Date.now() - start < 2000) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        frame = await refresh();
+      }
+      expect(frame.stream).toMatchObject({
+        finish: true,
+        content: "报告见\n\n📎 [report.pdf](https://example.com/files/report.pdf)",
+      });
+    });
+  });
+
+  it("cuts replies over 20 KB at the stream limit and sends the rest once after the finish frame", async () => {
+    const paragraphs = Array.from({ length: 250 }, (_, index) => `第 ${index + 1} 段：${"内容".repeat(20)}`);
+    paragraphs.push("END-OF-REPLY");
+    setWecomRuntime(createFakeRuntime(async ({ dispatcherOptions }) => {
+      await dispatcherOptions.deliver({ text: paragraphs.join("\n\n") });
+    }));
+
+    await withApiStub(() => ({ errcode: 0, errmsg: "ok" }), async (stubUrl, posts) => {
+      await withServer(serveWebhook, async (baseUrl) => {
+        const first = await postCallback<StreamFrame>(baseUrl, {
+          msgid: "MSGID-OVERFLOW",
+          chattype: "single",
+          from: { userid: "erin" },
+          msgtype: "text",
+          text: { content: "long answer please" },
+          response_url: `${stubUrl}/reply`,
+        });
+        const refresh = () => postCallback<StreamFrame>(baseUrl, { msgtype: "stream", stream: { id: first.stream.id } });
+
+        let frame = await refresh();
+        const start = Date.now();
+        while (!frame.stream.finish && Date.now() - start < 2000) {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          frame = await refresh();
+        }
+        expect(frame.stream.finish).toBe(true);
+        expect(Buffer.byteLength(frame.stream.content, "utf8")).toBeLessThanOrEqual(20_480);
+        expect(frame.stream.content.startsWith("第 1 段：")).toBe(true);
+        expect(frame.stream.content.endsWith("\n\n……（内容较长，剩余部分将在下方继续发送）")).toBe(true);
+        expect(frame.stream.content).not.toContain("END-OF-REPLY");
+
+        // 剩余部分在结束帧之后通过 response_url 补发，之后的刷新不再重复发送
+        await waitFor(() => posts.length > 0);
+        await refresh();
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(posts).toHaveLength(1);
+        const rest = (posts[0]!.body.markdown as { content: string }).content;
+        expect(rest).toContain("END-OF-REPLY");
+        expect(rest).not.toContain("第 1 段：");
+        const lastInHead = frame.stream.content.match(/第 (\d+) 段：/g)!.at(-1)!;
+        expect(rest).not.toContain(`\n${lastInHead}`);
+      });
+    });
+  });
+
+  it("sends data URL images as stream images and drops them from the text", async () => {
+    const png = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from("pixels")]);
+    const dataUrl = `data:image/png;base64,${png.toString("base64")}`;
+    setWecomRuntime(createFakeRuntime(async ({ dispatcherOptions }) => {
+      await dispatcherOptions.deliver({
+        text: `图表如下\n\n![chart](${dataUrl})\n\n另一张 data:image/png;base64,bm90LWFuLWltYWdl`,
+      });
+    }));
+
+    await withServer(serveWebhook, async (baseUrl) => {
+      const first = await postCallback<StreamFrame>(baseUrl, {
+        msgid: "MSGID-DATA-URL",
+        chattype: "single",
+        from: { userid: "dave" },
+        msgtype: "text",
+        text: { content: "draw a chart" },
+      });
+      const refresh = () => postCallback<StreamFrame>(baseUrl, { msgtype: "stream", stream: { id: first.stream.id } });
+
+      let frame = await refresh();
+      const start = Date.now();
+      while (!frame.stream.finish && Date.now() - start < 2000) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        frame = await refresh();
+      }
+      expect(frame.stream.content).toBe("图表如下\n\n另一张 [图片无法发送]");
+      expect(frame.stream.msg_item).toEqual([
+        {
+          msgtype: "image",
+          image: { base64: png.toString("base64"), md5: crypto.createHash("md5").update(png).digest("hex") },
+        },
+      ]);
+    });
+  });
+
+  it("attaches a wecom-card block to the final frame as a template card", async () => {
+    const card = {
+      card_type: "button_interaction",
+      main_title: { title: "部署确认" },
+      button_list: [{ text: "确认", key: "confirm" }, { text: "取消", key: "cancel", style: 2 }],
+    };
+    setWecomRuntime(createFakeRuntime(async ({ dispatcherOptions }) => {
+      await dispatcherOptions.deliver({ text: `请确认是否部署\n\n\`\`\`wecom-card\n${JSON.stringify(card)}\n\`\`\`` });
+    }));
+
+    await withServer(serveWebhook, async (baseUrl) => {
+      const first = await postCallback<StreamFrame>(baseUrl, {
+        msgid: "MSGID-CARD",
+        chattype: "single",
+        from: { userid: "erin" },
+        msgtype: "text",
+        text: { content: "deploy" },
+      });
+      const refresh = () => postCallback<StreamFrame>(baseUrl, { msgtype: "stream", stream: { id: first.stream.id } });
+
+      let frame = await refresh();
+      const start = Date.now();
+      while (!frame.stream.finish && Date.now() - start < 2000) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        frame = await refresh();
+      }
+      expect(frame.msgtype).toBe("stream_with_template_card");
+      expect(frame.stream.content).toBe("请确认是否部署");
+      expect(frame.template_card).toMatchObject(card);
+      expect(frame.template_card?.task_id).toMatch(/^card_\d+_[0-9a-f]{8}$/);
+    });
+  });
+
+  it("routes card clicks into the session and updates the clicked card", async () => {
+    const card = {
+      card_type: "button_interaction",
+      task_id: "deploy-42",
+      main_title: { title: "部署确认" },
+      button_list: [{ text: "确认", key: "approve" }],
+    };
+    const bodies: string[] = [];
+    setWecomRuntime(createFakeRuntime(async ({ ctx, dispatcherOptions }) => {
+      bodies.push(String(ctx.RawBody));
+      if (bodies.length === 1) {
+        await dispatcherOptions.deliver({ text: `\`\`\`wecom-card\n${JSON.stringify(card)}\n\`\`\`` });
+      }
+    }));
+
+    await withServer(serveWebhook, async (baseUrl) => {
+      const first = await postCallback<StreamFrame>(baseUrl, {
+        msgid: "MSGID-CARD-SEND",
+        chattype: "single",
+        from: { userid: "frank" },
+        msgtype: "text",
+        text: { content: "deploy" },
+      });
+      let frame = await postCallback<StreamFrame>(baseUrl, { msgtype: "stream", stream: { id: first.stream.id } });
+      const start = Date.now();
+      while (!frame.stream.finish && Date.now() - start < 2000) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        frame = await postCallback<StreamFrame>(baseUrl, { msgtype: "stream", stream: { id: first.stream.id } });
+      }
+
+      const click = () => postCallback<StreamFrame>(baseUrl, {
+        msgid: "MSGID-CARD-CLICK",
+        chattype: "single",
+        from: { userid: "frank" },
+        msgtype: "event",
+        event: {
+          eventtype: "template_card_event",
+          template_card_event: { card_type: "button_interaction", event_key: "approve", task_id: "deploy-42" },
+        },
+      }) as unknown as Promise<Record<string, unknown>>;
+      const expected = {
+        response_type: "update_template_card",
+        template_card: { ...card, replace_text: "已处理" },
+      };
+      expect(await click()).toEqual(expected);
+      await waitFor(() => bodies.length === 2);
+      expect(bodies[1]).toBe("[clicked: approve]");
+
+      // 企业微信重试同一事件：仍返回卡片更新，点击不会再次进入会话
+      expect(await click()).toEqual(expected);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(bodies).toHaveLength(2);
+    });
+  });
+
+  it("records answer feedback against the stream that produced it", async () => {
+    unregister();
+    const patches: Array<Record<string, unknown>> = [];
+    const entries: WecomFeedbackEntry[] = [];
+    const memoryLog = createMemoryFeedbackLog();
+    const feedbackLog: WecomFeedbackLog = {
+      append: async (entry) => {
+        entries.push(entry);
+        return await memoryLog.append(entry);
+      },
+      counts: memoryLog.counts,
+    };
+    unregister = registerWecomWebhookTarget({
+      account,
+      config: {} as OpenclawConfig,
+      runtime: {},
+      core: {} as PluginRuntime,
+      path: "/hook",
+      statusSink: (patch) => patches.push(patch),
+      feedbackLog,
+    });
+    setWecomRuntime(createFakeRuntime(async ({ dispatcherOptions }) => {
+      await dispatcherOptions.deliver({ text: "答案是 42" });
+    }));
+
+    await withServer(serveWebhook, async (baseUrl) => {
+      const first = await postCallback<StreamFrame>(baseUrl, {
+        msgid: "MSGID-FEEDBACK",
+        chattype: "single",
+        from: { userid: "grace" },
+        msgtype: "text",
+        text: { content: "question" },
+      }) as StreamFrame & { stream: { feedback?: { id: string } } };
+      expect(first.stream.feedback).toEqual({ id: first.stream.id });
+
+      let frame = await postCallback<StreamFrame>(baseUrl, { msgtype: "stream", stream: { id: first.stream.id } });
+      const start = Date.now();
+      while (!frame.stream.finish && Date.now() - start < 2000) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        frame = await postCallback<StreamFrame>(baseUrl, { msgtype: "stream", stream: { id: first.stream.id } });
+      }
+
+      const feedback = (type: number, content?: string) => postCallback<StreamFrame>(baseUrl, {
+        msgid: `MSGID-FEEDBACK-EVENT-${type}`,
+        chattype: "single",
+        from: { userid: "grace" },
+        msgtype: "event",
+        event: { eventtype: "feedback_event", feedback_event: { id: first.stream.id, type, content } },
+      });
+      await feedback(2, "不对");
+      expect(patches.at(-1)).toMatchObject({ feedbackLikes: 0, feedbackDislikes: 1 });
+      await feedback(1);
+      expect(patches.at(-1)).toMatchObject({ feedbackLikes: 1, feedbackDislikes: 0 });
+      expect(entries[0]).toMatchObject({
+        feedbackId: first.stream.id,
+        rating: "dislike",
+        comment: "不对",
+        userid: "grace",
+        msgid: "MSGID-FEEDBACK",
+        sessionKey: "wecom:grace",
+        reply: "答案是 42",
+      });
+    });
+  });
+});
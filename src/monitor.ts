@@ -12,31 +12,70 @@ import type {
   WecomInboundMixedItem,
   WecomInboundImage,
   WecomInboundFile,
+  WecomInboundLocation,
+  WecomInboundLink,
   WecomInboundEvent,
   WecomInboundStreamRefresh,
+  WecomInboundTemplateCardEvent,
+  WecomInboundFeedbackEvent,
+  WecomTemplateCard,
 } from "./types.js";
-import { decryptWecomEncrypted, encryptWecomPlaintext, verifyWecomSignature, computeWecomMsgSignature } from "./crypto.js";
+import { decryptWecomEncrypted, decryptWecomMedia, encryptWecomPlaintext, verifyWecomSignature, computeWecomMsgSignature } from "./crypto.js";
+import { splitTextByUtf8Bytes, utf8ByteLength } from "./chunk.js";
+import { resolveWecomDmAccess } from "./dm-policy.js";
+import { enqueueSessionItem, stopSession, type WecomQueueCancelReason } from "./queue.js";
+import type { PersistedWecomStream, WecomStreamStore } from "./stream-store.js";
+import type { WecomFeedbackLog, WecomFeedbackRating } from "./feedback-log.js";
+import { normalizeWecomAppMessage, parseWecomXml } from "./app-message.js";
 import { getWecomRuntime } from "./runtime.js";
-import { downloadImageFromUrl } from "./wecom-api.js";
-import { sendTextMessage, sendImageMessage, sendTextCardMessage, uploadMedia } from "./api.js";
+import { downloadFile, resolveDownloadPolicy, type WecomDownloadPolicy } from "./download.js";
+import { getWecomApiClient, type WecomApiClient } from "./api.js";
+import { formatWecomText, sendAppText } from "./format.js";
+import { getWecomMediaCache, uploadMediaWithCache } from "./media-cache.js";
+import {
+  buildInboundMediaContext,
+  extractInboundText,
+  resolveInboundMediaDir,
+  saveInboundMedia,
+  sniffImageContentType,
+  type WecomInboundMedia,
+} from "./inbound-media.js";
+import {
+  buildProcessedTemplateCard,
+  extractTemplateCard,
+  formatTemplateCardClick,
+  maskTemplateCardBlocks,
+  parseTemplateCardEvent,
+} from "./template-card.js";
 
 export type WecomRuntimeEnv = {
   log?: (message: string) => void;
   error?: (message: string) => void;
 };
 
-type WecomWebhookTarget = {
+export type WecomWebhookTarget = {
   account: ResolvedWecomAccount;
   config: OpenclawConfig;
   runtime: WecomRuntimeEnv;
   core: PluginRuntime;
   path: string;
-  statusSink?: (patch: { lastInboundAt?: number; lastOutboundAt?: number }) => void;
+  statusSink?: (patch: {
+    lastInboundAt?: number;
+    lastOutboundAt?: number;
+    replayRejections?: number;
+    lastReplayRejectedAt?: number;
+    feedbackLikes?: number;
+    feedbackDislikes?: number;
+    lastFeedbackAt?: number;
+  }) => void;
+  streamStore?: WecomStreamStore; // 未提供时 stream 状态只保存在内存中
+  feedbackLog?: WecomFeedbackLog; // 未提供时不记录回答反馈
 };
 
 type StreamImage = {
   base64: string;
   md5: string;
+  url?: string; // 从链接下载的图片保留原链接，response_url 无法发送图片时以链接形式附上
 };
 
 type StreamState = {
@@ -48,14 +87,23 @@ type StreamState = {
   started: boolean;
   finished: boolean;
   error?: string;
-  content: string;
+  content: string; // 已交付的完整 block
+  partial?: string; // 正在生成中的文本（尚未作为 block 交付）
+  progress?: string; // 进度提示，例如工具调用中
   images: StreamImage[]; // 图片列表，最多10张
   files: StreamFile[]; // 文件列表
+  card?: WecomTemplateCard; // 回复中的模板卡片，随结束帧发送
   // 主动消息补发相关
-  proactiveSent: boolean; // 是否已通过主动消息发送
+  proactiveSent: boolean; // 是否已转为主动消息发送（仅在内存中，避免重复补发）
+  delivered?: boolean; // 最终回复是否已送达：stream 结束帧已返回，或主动消息发送成功
+  overflowSent?: boolean; // 超出 stream 上限的剩余内容是否已补发
+  filesSent?: boolean; // 文件是否已通过出站 API 发送；未发送时以链接形式附在 stream 末尾
   target?: string; // 用户ID 或群聊ID
   isGroup?: boolean; // 是否群聊
   account?: ResolvedWecomAccount; // 用于主动发送的账号配置
+  sessionKey?: string; // 路由后的会话
+  responseUrl?: string; // 回调携带的 response_url，无需凭证即可补发
+  delivery?: "proactive"; // 自建应用：没有 stream 刷新，结束后整体通过主动消息发送
 };
 
 const webhookTargets = new Map<string, WecomWebhookTarget[]>();
@@ -64,11 +112,32 @@ const msgidToStreamId = new Map<string, string>();
 
 const STREAM_TTL_MS = 10 * 60 * 1000;
 const STREAM_MAX_BYTES = 20_480;
+const STREAM_OVERFLOW_MARKER = "\n\n……（内容较长，剩余部分将在下方继续发送）";
 // 企业微信 stream 模式超时时间：如果 10 秒内没有刷新请求，认为已超时
 // 企业微信流式响应通常在 5 秒内超时，设置 10 秒留有余量
 const STREAM_REFRESH_TIMEOUT_MS = 10 * 1000;
 // 超时检查间隔：每 5 秒检查一次
 const STREAM_TIMEOUT_CHECK_INTERVAL_MS = 5 * 1000;
+// response_url 有效期：自回调起 1 小时
+const RESPONSE_URL_TTL_MS = 60 * 60 * 1000;
+
+const TOOL_PROGRESS_TEXT = "正在调用工具…";
+const STREAM_RESTART_NOTICE = "（服务重启，回复可能不完整）";
+const QUEUED_PROGRESS_TEXT = "前一条消息仍在处理中，已排队…";
+
+// 停止当前回复的指令
+const STOP_COMMANDS = new Set(["停止", "/stop", "/停止"]);
+
+const QUEUE_CANCEL_NOTICES: Record<WecomQueueCancelReason, string> = {
+  merged: "（已与后续消息合并处理）",
+  interrupted: "（已被新消息打断）",
+  stopped: "（已停止生成）",
+};
+
+const DM_NOT_ALLOWED_TEXT = "抱歉，你暂未获得使用该机器人的权限，请联系管理员开通。";
+
+// 模板卡片被点击后，按钮替换为的提示文案
+const TEMPLATE_CARD_PROCESSED_TEXT = "已处理";
 
 // 启动定时器定期检查超时的 stream
 let timeoutCheckTimer: ReturnType<typeof setInterval> | null = null;
@@ -76,9 +145,9 @@ let timeoutCheckTimer: ReturnType<typeof setInterval> | null = null;
 function startTimeoutChecker(): void {
   if (timeoutCheckTimer) return;
   timeoutCheckTimer = setInterval(() => {
-    // 只在有活跃的 stream 时检查
+    // 只在有活跃的 stream 时检查；长连接模式没有回调请求触发清理，过期 stream 同样在这里清理
     if (streams.size > 0) {
-      checkAndSendProactiveMessages().catch(() => {});
+      pruneStreams();
     }
   }, STREAM_TIMEOUT_CHECK_INTERVAL_MS);
   // 允许进程正常退出
@@ -93,11 +162,138 @@ function normalizeWebhookPath(raw: string): string {
   return withSlash;
 }
 
+// stream 持久化：合并短时间内的多次变更，延迟写入
+const STREAM_PERSIST_DELAY_MS = 500;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+// 已注册 store 的恢复任务，处理请求前需等待完成
+let streamsRestoring: Promise<void> = Promise.resolve();
+
+function toPersistedStream(state: StreamState): PersistedWecomStream | null {
+  if (!state.account) return null;
+  return {
+    streamId: state.streamId,
+    accountId: state.account.accountId,
+    msgid: state.msgid,
+    createdAt: state.createdAt,
+    updatedAt: state.updatedAt,
+    lastRefreshAt: state.lastRefreshAt,
+    started: state.started,
+    finished: state.finished,
+    error: state.error,
+    content: state.content,
+    partial: state.partial,
+    files: state.files,
+    card: state.card,
+    delivered: state.delivered ?? false,
+    overflowSent: state.overflowSent,
+    filesSent: state.filesSent,
+    target: state.target,
+    isGroup: state.isGroup,
+    sessionKey: state.sessionKey,
+    responseUrl: state.responseUrl,
+    delivery: state.delivery,
+  };
+}
+
+let persisting: Promise<void> = Promise.resolve();
+
+function persistStreams(): Promise<void> {
+  // 调用时即生成快照：注销时目标随后就会被移除
+  const pending: Array<{ target: WecomWebhookTarget; store: WecomStreamStore; snapshot: PersistedWecomStream[] }> = [];
+  const stored = new Set<WecomStreamStore>();
+  for (const targets of webhookTargets.values()) {
+    for (const target of targets) {
+      const store = target.streamStore;
+      if (!store || stored.has(store)) continue;
+      stored.add(store);
+      const snapshot = Array.from(streams.values())
+        .filter((state) => state.account?.accountId === target.account.accountId)
+        .map(toPersistedStream)
+        .filter((entry): entry is PersistedWecomStream => Boolean(entry));
+      pending.push({ target, store, snapshot });
+    }
+  }
+
+  // 定时写入与注销时的写入串行执行，避免并发写同一个文件
+  persisting = persisting.then(async () => {
+    for (const { target, store, snapshot } of pending) {
+      try {
+        await store.save(snapshot);
+      } catch (err) {
+        target.runtime.error?.(`[${target.account.accountId}] wecom stream persist failed: ${String(err)}`);
+      }
+    }
+  });
+  return persisting;
+}
+
+function scheduleStreamPersist(): void {
+  if (persistTimer) return;
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    persistStreams().catch(() => {});
+  }, STREAM_PERSIST_DELAY_MS);
+  persistTimer.unref();
+}
+
+/**
+ * 从 store 恢复 stream：已送达的 stream 只用于 msgid 去重和刷新；未送达的回复重新投递
+ * 重启前未完成的 stream 以现有内容结束，企业微信仍在刷新时通过结束帧返回，刷新超时后由超时检查改用主动消息补发
+ */
+async function restoreStreams(target: WecomWebhookTarget): Promise<void> {
+  const store = target.streamStore;
+  if (!store) return;
+
+  let persisted: PersistedWecomStream[];
+  try {
+    persisted = await store.load();
+  } catch (err) {
+    target.runtime.error?.(`[${target.account.accountId}] wecom stream restore failed: ${String(err)}`);
+    return;
+  }
+
+  const cutoff = Date.now() - STREAM_TTL_MS;
+  let reopened = 0;
+  for (const entry of persisted) {
+    if (entry.accountId !== target.account.accountId) continue;
+    if (entry.updatedAt < cutoff || streams.has(entry.streamId)) continue;
+
+    const { accountId: _accountId, ...fields } = entry;
+    const state: StreamState = {
+      ...fields,
+      lastRefreshAt: entry.lastRefreshAt ?? entry.updatedAt,
+      delivered: entry.delivered ?? entry.finished,
+      proactiveSent: false,
+      images: [],
+      account: target.account,
+    };
+    streams.set(state.streamId, state);
+    if (state.msgid) msgidToStreamId.set(state.msgid, state.streamId);
+    if (state.delivered) continue;
+
+    if (!state.finished) {
+      // 重启前的 agent 运行已丢失：以现有内容（含生成中的文本）结束 stream
+      const content = [state.content, state.partial].filter((part) => part?.trim()).join("\n\n");
+      state.content = content ? `${content}\n\n${STREAM_RESTART_NOTICE}` : STREAM_RESTART_NOTICE;
+      state.partial = undefined;
+      state.started = true;
+      reopened += 1;
+    }
+    finishStream(state, target.runtime);
+  }
+
+  if (reopened > 0) {
+    target.runtime.log?.(`[wecom] restored ${reopened} unfinished stream(s) after restart`);
+    scheduleStreamPersist();
+  }
+}
+
 function pruneStreams(log?: (message: string) => void): void {
   const cutoff = Date.now() - STREAM_TTL_MS;
   for (const [id, state] of streams.entries()) {
     if (state.updatedAt < cutoff) {
       streams.delete(id);
+      scheduleStreamPersist();
     }
   }
   for (const [msgid, id] of msgidToStreamId.entries()) {
@@ -109,29 +305,90 @@ function pruneStreams(log?: (message: string) => void): void {
   checkAndSendProactiveMessages(log).catch(() => {});
 }
 
-function truncateUtf8Bytes(text: string, maxBytes: number): string {
-  const buf = Buffer.from(text, "utf8");
-  if (buf.length <= maxBytes) return text;
-  // 从开头截取，保留前 maxBytes 字节
-  let slice = buf.subarray(0, maxBytes);
-  // 确保不会截断多字节 UTF-8 字符（中文等）
-  // UTF-8 多字节字符的后续字节以 10xxxxxx (0x80-0xBF) 开头
-  while (slice.length > 0 && (slice[slice.length - 1] & 0xc0) === 0x80) {
-    slice = slice.subarray(0, slice.length - 1);
-  }
-  // 如果最后一个字节是多字节字符的开始字节，也需要移除
-  if (slice.length > 0) {
-    const lastByte = slice[slice.length - 1];
-    // 检查是否是多字节字符的开始字节（110xxxxx, 1110xxxx, 11110xxx）
-    if ((lastByte & 0xe0) === 0xc0 || (lastByte & 0xf0) === 0xe0 || (lastByte & 0xf8) === 0xf0) {
-      slice = slice.subarray(0, slice.length - 1);
-    }
+/**
+ * 拆分超过 stream 上限的内容：stream 中展示首段并附带提示，其余部分通过主动消息分条补发
+ */
+function splitStreamContent(content: string): { head: string; rest: string } {
+  if (utf8ByteLength(content) <= STREAM_MAX_BYTES) {
+    return { head: content, rest: "" };
+  }
+  const chunks = splitTextByUtf8Bytes(content, STREAM_MAX_BYTES - utf8ByteLength(STREAM_OVERFLOW_MARKER));
+  return {
+    head: `${chunks[0] ?? ""}${STREAM_OVERFLOW_MARKER}`,
+    rest: chunks.slice(1).join("\n\n"),
+  };
+}
+
+/**
+ * 结束 stream；主动投递的 stream 在结束时发送完整回复
+ */
+function finishStream(state: StreamState, runtime: WecomRuntimeEnv): void {
+  state.finished = true;
+  state.updatedAt = Date.now();
+  scheduleStreamPersist();
+
+  if (state.delivery !== "proactive") {
+    sendStreamFiles(state, runtime);
+    return;
   }
-  return slice.toString("utf8");
+  if (state.proactiveSent || !state.account || !state.target) return;
+  if (!state.content.trim() && state.images.length === 0 && state.files.length === 0 && !state.card) return;
+  state.proactiveSent = true;
+  sendProactiveMessage({
+    account: state.account,
+    target: state.target,
+    isGroup: state.isGroup ?? false,
+    content: state.content,
+    images: state.images,
+    files: state.files,
+    card: state.card,
+    responseUrl: state.responseUrl,
+    responseUrlExpiresAt: state.createdAt + RESPONSE_URL_TTL_MS,
+    log: runtime.log,
+  })
+    .then((ok) => {
+      if (ok) {
+        markStreamDelivered(state);
+        return;
+      }
+      runtime.error?.(`[wecom] stream ${state.streamId} 主动消息回复未完全送达`);
+    })
+    .catch((err) => {
+      runtime.error?.(`[wecom] stream ${state.streamId} 主动消息回复失败: ${String(err)}`);
+    });
+}
+
+function markStreamDelivered(state: StreamState): void {
+  if (state.delivered) return;
+  state.delivered = true;
+  scheduleStreamPersist();
+}
+
+/**
+ * stream 无法携带文件：配置了出站 API 时在结束后单独发送文件，否则文件以链接形式附在 stream 末尾
+ * 已进入超时补发的 stream 由补发流程一并发送
+ */
+function sendStreamFiles(state: StreamState, runtime: WecomRuntimeEnv): void {
+  const { account, target } = state;
+  if (state.files.length === 0 || state.filesSent || state.proactiveSent) return;
+  if (!account?.outboundConfigured || !target) return;
+
+  state.filesSent = true;
+  scheduleStreamPersist();
+  const client = getWecomApiClient(account);
+  (async () => {
+    for (const file of state.files) {
+      await sendFileWithFallback({ account, client, target, isGroup: state.isGroup ?? false, file, log: runtime.log });
+    }
+  })().catch((err) => {
+    runtime.error?.(`[wecom] stream ${state.streamId} 文件发送失败: ${String(err)}`);
+  });
 }
 
 // 图片 URL 最大大小：10MB
 const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+// 回复中引用的文件默认下载上限（企业微信文件消息上限为 20MB）
+const DEFAULT_MAX_FILE_SIZE_MB = 20;
 
 // 匹配文本中的图片 URL（支持 markdown 格式和纯 URL）
 const IMAGE_URL_PATTERNS = [
@@ -139,6 +396,14 @@ const IMAGE_URL_PATTERNS = [
   /(?<!\()(https?:\/\/[^\s<>"']+\.(?:png|jpg|jpeg|gif|webp)(?:\?[^\s<>"']*)?)(?!\))/gi, // 纯 URL
 ];
 
+// 匹配文本中的 data URL 图片（markdown 格式和纯 data URL）；markdown 中的 base64 可能带换行
+const DATA_URL_IMAGE_PATTERN =
+  /!\[[^\]]*\]\(\s*(data:image\/[\w.+-]+;base64,[A-Za-z0-9+/=\s]+?)\s*\)|data:image\/[\w.+-]+;base64,[A-Za-z0-9+/]+={0,2}/gi;
+// 无法发送的 data URL 图片在文本中的占位
+const DATA_URL_IMAGE_PLACEHOLDER = "[图片无法发送]";
+// 每条回复最多携带的图片数量
+const MAX_STREAM_IMAGES = 10;
+
 // 已知的图片服务域名（这些服务的 URL 可能没有扩展名）
 const KNOWN_IMAGE_HOSTS = [
   "picsum.photos",
@@ -211,42 +476,58 @@ function extractFileUrls(text: string): string[] {
 /**
  * 下载图片并转换为 base64
  */
-async function downloadImageAsBase64(url: string): Promise<StreamImage | null> {
-  try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 30000); // 30秒超时
-
-    const res = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        "User-Agent": "Mozilla/5.0 (compatible; ClawdbotWecom/1.0)",
-      },
-    });
-    clearTimeout(timeout);
-
-    if (!res.ok) {
-      return null;
-    }
+async function downloadImageAsBase64(
+  url: string,
+  policy: WecomDownloadPolicy,
+  log?: (message: string) => void,
+): Promise<StreamImage | null> {
+  const result = await downloadFile({ url, maxBytes: MAX_IMAGE_SIZE, timeoutMs: 30000, policy, log });
+  if (!result || "tooLarge" in result || !result.contentType.startsWith("image/")) {
+    return null;
+  }
 
-    const contentType = res.headers.get("content-type") || "";
-    if (!contentType.startsWith("image/")) {
-      return null;
-    }
+  const base64 = result.buffer.toString("base64");
+  const md5 = crypto.createHash("md5").update(result.buffer).digest("hex");
 
-    const buffer = Buffer.from(await res.arrayBuffer());
+  return { base64, md5, url };
+}
 
-    // 检查大小限制
-    if (buffer.length > MAX_IMAGE_SIZE) {
-      return null;
-    }
+/**
+ * 根据文件头判断图片格式（企业微信图片消息支持 JPG、PNG）
+ */
+function detectImageFormat(buffer: Buffer): "png" | "jpeg" | null {
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "png";
+  }
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return "jpeg";
+  }
+  return null;
+}
 
-    const base64 = buffer.toString("base64");
-    const md5 = crypto.createHash("md5").update(buffer).digest("hex");
+/**
+ * 解码 data URL 图片，校验格式和大小
+ */
+function decodeDataUrlImage(dataUrl: string): StreamImage | null {
+  const match = /^data:image\/[\w.+-]+;base64,([\s\S]*)$/i.exec(dataUrl.trim());
+  if (!match) return null;
 
-    return { base64, md5 };
-  } catch {
+  const buffer = Buffer.from(match[1].replace(/\s+/g, ""), "base64");
+  if (buffer.length === 0 || buffer.length > MAX_IMAGE_SIZE || !detectImageFormat(buffer)) {
     return null;
   }
+
+  return {
+    base64: buffer.toString("base64"),
+    md5: crypto.createHash("md5").update(buffer).digest("hex"),
+  };
+}
+
+/**
+ * 隐藏文本中的 data URL 图片（stream 尚未结束时避免推送整段 base64）
+ */
+function maskDataUrlImages(text: string): string {
+  return text.replace(DATA_URL_IMAGE_PATTERN, "[图片]");
 }
 
 /** 文件链接信息（用于文本卡片发送） */
@@ -270,19 +551,31 @@ function extractFilenameFromUrl(url: string): string {
 }
 
 /**
- * 处理文本中的图片 URL，下载并转换为 StreamImage
+ * 处理文本中的图片 URL 和 data URL，下载或解码并转换为 StreamImage
  * 返回处理后的文本（移除图片 URL）和图片列表
  */
-async function processImagesInText(text: string): Promise<{ text: string; images: StreamImage[] }> {
+async function processImagesInText(
+  text: string,
+  policy: WecomDownloadPolicy,
+  log?: (message: string) => void,
+): Promise<{ text: string; images: StreamImage[] }> {
   const images: StreamImage[] = [];
-  let processedText = text;
 
-  const urls = extractImageUrls(processedText);
+  // 1. data URL 直接解码；格式不支持、过大或超出数量的替换为占位文字
+  let processedText = text.replace(DATA_URL_IMAGE_PATTERN, (match, markdownUrl: string | undefined) => {
+    const img = images.length < MAX_STREAM_IMAGES ? decodeDataUrlImage(markdownUrl ?? match) : null;
+    if (!img) return DATA_URL_IMAGE_PLACEHOLDER;
+    images.push(img);
+    return "";
+  });
+
+  // 2. 下载图片 URL
+  const urls = extractImageUrls(processedText).slice(0, MAX_STREAM_IMAGES - images.length);
   if (urls.length > 0) {
-    const downloadPromises = urls.slice(0, 10).map((url) => downloadImageAsBase64(url));
+    const downloadPromises = urls.map((url) => downloadImageAsBase64(url, policy, log));
     const results = await Promise.all(downloadPromises);
 
-    for (let i = 0; i < urls.length && i < 10; i++) {
+    for (let i = 0; i < urls.length; i++) {
       const img = results[i];
       if (img) {
         images.push(img);
@@ -329,90 +622,199 @@ function escapeRegExp(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
+function formatFileLinks(files: StreamFile[]): string {
+  return files.map((file) => `📎 [${file.filename}](${file.url})`).join("\n\n");
+}
+
+/**
+ * 下载文件并以文件消息发送；下载或上传失败、超过大小上限时改为发送链接卡片
+ */
+async function sendFileWithFallback(params: {
+  account: ResolvedWecomAccount;
+  client: WecomApiClient;
+  target: string;
+  isGroup: boolean;
+  file: StreamFile;
+  log?: (message: string) => void;
+}): Promise<boolean> {
+  const { account, client, target, isGroup, file, log } = params;
+  const maxBytes = (account.config.maxFileSizeMb ?? DEFAULT_MAX_FILE_SIZE_MB) * 1024 * 1024;
+
+  const downloaded = await downloadFile({ url: file.url, maxBytes, policy: resolveDownloadPolicy(account.config), log });
+  if (downloaded && !("tooLarge" in downloaded)) {
+    try {
+      const mediaId = await uploadMediaWithCache({
+        client,
+        cache: getWecomMediaCache(account.accountId),
+        type: "file",
+        buffer: downloaded.buffer,
+        filename: file.filename,
+        contentType: downloaded.contentType,
+        log,
+      });
+      await client.sendFile({ target, mediaId, isGroup });
+      log?.(`[wecom] 主动发送文件成功: ${file.filename}`);
+      return true;
+    } catch (err) {
+      log?.(`[wecom] 主动发送文件失败，改用链接卡片: ${file.filename} - ${String(err)}`);
+    }
+  } else {
+    log?.(`[wecom] 文件${downloaded ? "超过大小上限" : "下载失败"}，改用链接卡片: ${file.filename}`);
+  }
+
+  try {
+    await client.sendTextCard({
+      target,
+      title: `📎 ${file.filename}`,
+      description: "点击下载文件",
+      url: file.url,
+      btnText: "下载",
+      isGroup,
+    });
+    log?.(`[wecom] 主动发送文件卡片成功: ${file.filename}`);
+    return true;
+  } catch (err) {
+    log?.(`[wecom] 主动发送文件卡片失败: ${String(err)}`);
+    return false;
+  }
+}
+
+/**
+ * 通过 response_url 发送内容：每个 response_url 只能调用一次且不支持图片消息，
+ * 文本与文件、图片链接合并为一条 markdown，超出上限的文本和没有链接的图片返回给调用方
+ * @returns 未能随该消息发送的内容；response_url 调用失败时返回 null
+ */
+async function sendViaResponseUrl(params: {
+  client: WecomApiClient;
+  responseUrl: string;
+  content: string;
+  images: StreamImage[];
+  files: StreamFile[];
+  log?: (message: string) => void;
+}): Promise<{ rest: string; images: StreamImage[] } | null> {
+  const { client, responseUrl, content, images, files, log } = params;
+  const imageLinks = images.flatMap((img) => (img.url ? [`🖼️ [图片](${img.url})`] : [])).join("\n\n");
+  const markdown = [content, formatFileLinks(files), imageLinks].filter((part) => part.trim()).join("\n\n");
+  const unlinkedImages = images.filter((img) => !img.url);
+  if (!markdown) return { rest: "", images: unlinkedImages };
+
+  const { head, rest } = splitStreamContent(markdown);
+  try {
+    await client.sendResponseUrlMessage({
+      responseUrl,
+      body: { msgtype: "markdown", markdown: { content: head } },
+    });
+  } catch (err) {
+    log?.(`[wecom] response_url 发送失败: ${String(err)}`);
+    return null;
+  }
+  log?.(`[wecom] response_url 发送成功`);
+  return { rest, images: unlinkedImages };
+}
+
 /**
- * 通过主动消息 API 发送内容（超时补发）
+ * 超时补发：优先使用 response_url（只调用一次），其余内容或 response_url 失败、过期后再走出站 API
+ * 出站 API 的超长文本按段落切分后依次发送，任何一段未送达都会记录日志并返回 false
  */
-async function sendProactiveMessage(params: {
+export async function sendProactiveMessage(params: {
   account: ResolvedWecomAccount;
   target: string;
   isGroup: boolean;
   content: string;
   images: StreamImage[];
   files: StreamFile[];
+  card?: WecomTemplateCard;
+  responseUrl?: string;
+  responseUrlExpiresAt?: number;
   log?: (message: string) => void;
 }): Promise<boolean> {
-  const { account, target, isGroup, content, images, files, log } = params;
+  const { account, target, isGroup, card, responseUrl, responseUrlExpiresAt, log } = params;
+  const client = getWecomApiClient(account);
+  let { content, images, files } = params;
+  let sentViaResponseUrl = false;
+
+  if (responseUrl) {
+    if (responseUrlExpiresAt !== undefined && Date.now() >= responseUrlExpiresAt) {
+      log?.(`[wecom] response_url 已过期，改用出站 API`);
+    } else {
+      const sent = await sendViaResponseUrl({ client, responseUrl, content, images, files, log });
+      if (sent) {
+        sentViaResponseUrl = true;
+        content = sent.rest;
+        images = sent.images;
+        files = [];
+      }
+    }
+  }
+  if (!content.trim() && images.length === 0 && files.length === 0 && !card) {
+    return true;
+  }
 
   if (!account.outboundConfigured) {
-    log?.(`[wecom] 未配置出站 API，无法发送主动消息`);
+    const pending = `${utf8ByteLength(content)} 字节文本、${images.length} 张图片、${files.length} 个文件${card ? "和模板卡片" : ""}`;
+    if (sentViaResponseUrl) {
+      // response_url 已用过，剩余内容没有其他发送途径
+      log?.(`[wecom] 未配置出站 API，已丢弃 response_url 之外的剩余内容（${pending}）`);
+      return true;
+    }
+    log?.(`[wecom] 未配置出站 API，无法发送主动消息（${pending}未送达）`);
     return false;
   }
 
   try {
-    // 1. 发送文本内容
+    let allSent = true;
+
+    // 1. 发送文本（出站 API 单条上限 2048 字节，按段落切分后依次发送）
     if (content.trim()) {
-      const textResult = await sendTextMessage({
-        account,
+      const sent = await sendAppText({
+        client,
         target,
         text: content,
         isGroup,
+        sequenceMarkers: account.config.textSequenceMarkers ?? true,
+        log,
       });
-      if (textResult.errcode !== 0) {
-        log?.(`[wecom] 主动发送文本失败: ${textResult.errcode} ${textResult.errmsg}`);
-      } else {
-        log?.(`[wecom] 主动发送文本成功`);
-      }
+      if (sent.errors.length > 0) allSent = false;
     }
 
     // 2. 发送图片
     for (const img of images) {
       try {
         const buffer = Buffer.from(img.base64, "base64");
-        const mediaId = await uploadMedia({
-          account,
+        const mediaId = await uploadMediaWithCache({
+          client,
+          cache: getWecomMediaCache(account.accountId),
           type: "image",
           buffer,
           filename: `image_${img.md5.slice(0, 8)}.png`,
+          log,
         });
-        const imgResult = await sendImageMessage({
-          account,
-          target,
-          mediaId,
-          isGroup,
-        });
-        if (imgResult.errcode !== 0) {
-          log?.(`[wecom] 主动发送图片失败: ${imgResult.errcode} ${imgResult.errmsg}`);
-        } else {
-          log?.(`[wecom] 主动发送图片成功`);
-        }
+        await client.sendImage({ target, mediaId, isGroup });
+        log?.(`[wecom] 主动发送图片成功`);
       } catch (err) {
-        log?.(`[wecom] 主动发送图片异常: ${String(err)}`);
+        log?.(`[wecom] 主动发送图片失败: ${String(err)}`);
       }
     }
 
-    // 3. 发送文件链接卡片
+    // 3. 发送文件（失败时退回为链接卡片）
     for (const file of files) {
+      if (!(await sendFileWithFallback({ account, client, target, isGroup, file, log }))) {
+        allSent = false;
+      }
+    }
+
+    // 4. 发送模板卡片（只能通过 message/send 发送给成员）
+    if (card) {
       try {
-        const fileResult = await sendTextCardMessage({
-          account,
-          target,
-          title: `📎 ${file.filename}`,
-          description: "点击下载文件",
-          url: file.url,
-          btnText: "下载",
-          isGroup,
-        });
-        if (fileResult.errcode !== 0) {
-          log?.(`[wecom] 主动发送文件卡片失败: ${fileResult.errcode} ${fileResult.errmsg}`);
-        } else {
-          log?.(`[wecom] 主动发送文件卡片成功: ${file.filename}`);
-        }
+        await client.sendTemplateCard({ target, card, isGroup });
+        log?.(`[wecom] 主动发送模板卡片成功`);
       } catch (err) {
-        log?.(`[wecom] 主动发送文件卡片异常: ${String(err)}`);
+        allSent = false;
+        log?.(`[wecom] 主动发送模板卡片失败: ${String(err)}`);
       }
     }
 
-    return true;
+    return allSent;
   } catch (err) {
     log?.(`[wecom] 主动发送消息异常: ${String(err)}`);
     return false;
@@ -425,16 +827,19 @@ async function sendProactiveMessage(params: {
 async function checkAndSendProactiveMessages(log?: (message: string) => void): Promise<void> {
   const now = Date.now();
   for (const [streamId, state] of streams.entries()) {
-    // 跳过已完成、已发送主动消息、或没有配置出站 API 的
-    if (state.proactiveSent || !state.account?.outboundConfigured || !state.target) {
+    // 跳过已送达、已转为主动消息、或既没有 response_url 也没有配置出站 API 的
+    if (state.delivered || state.proactiveSent || state.delivery === "proactive" || !state.account || !state.target) {
+      continue;
+    }
+    if (!state.responseUrl && !state.account.outboundConfigured) {
       continue;
     }
 
-    // 检查是否超时：已开始处理、未完成、且超过刷新超时时间
+    // 检查是否超时：已开始处理、结束帧尚未返回、且超过刷新超时时间（包括重启后恢复的 stream）
     const timeSinceLastRefresh = now - state.lastRefreshAt;
-    if (state.started && !state.finished && timeSinceLastRefresh > STREAM_REFRESH_TIMEOUT_MS) {
+    if (state.started && timeSinceLastRefresh > STREAM_REFRESH_TIMEOUT_MS) {
       log?.(`[wecom] stream ${streamId} 刷新超时 (${Math.round(timeSinceLastRefresh / 1000)}s)，等待完成后发送主动消息...`);
-      // 标记已发送，避免重复
+      // 转为主动消息发送，stream 不再重复交付文件；送达后才记录 delivered
       state.proactiveSent = true;
 
       // 等待处理完成（最多再等 5 分钟）
@@ -443,20 +848,102 @@ async function checkAndSendProactiveMessages(log?: (message: string) => void): P
         await new Promise((resolve) => setTimeout(resolve, 1000));
       }
 
-      if (state.content.trim() || state.images.length > 0) {
+      if (state.content.trim() || state.images.length > 0 || state.files.length > 0 || state.card) {
         log?.(`[wecom] stream ${streamId} 开始主动消息补发`);
-        await sendProactiveMessage({
+        const ok = await sendProactiveMessage({
           account: state.account,
           target: state.target,
           isGroup: state.isGroup ?? false,
           content: state.content,
           images: state.images,
-          files: state.files,
+          files: state.filesSent ? [] : state.files,
+          card: state.card,
+          responseUrl: state.responseUrl,
+          responseUrlExpiresAt: state.createdAt + RESPONSE_URL_TTL_MS,
           log,
         });
+        if (ok) markStreamDelivered(state);
+      }
+    }
+  }
+}
+
+/**
+ * 补发超出 stream 上限的剩余内容（仅在结束帧返回后触发一次）
+ */
+function sendStreamOverflow(state: StreamState, runtime: WecomRuntimeEnv): void {
+  if (state.overflowSent || state.proactiveSent || !state.account || !state.target) return;
+  const { rest } = splitStreamContent(composeStreamContent(state));
+  if (!rest) return;
+
+  state.overflowSent = true;
+  scheduleStreamPersist();
+  sendProactiveMessage({
+    account: state.account,
+    target: state.target,
+    isGroup: state.isGroup ?? false,
+    content: rest,
+    images: [],
+    files: [],
+    responseUrl: state.responseUrl,
+    responseUrlExpiresAt: state.createdAt + RESPONSE_URL_TTL_MS,
+    log: runtime.log,
+  })
+    .then((ok) => {
+      if (!ok) {
+        runtime.error?.(`[wecom] stream ${state.streamId} 超长内容补发未完全送达 (${utf8ByteLength(rest)} bytes)`);
       }
+    })
+    .catch((err) => {
+      runtime.error?.(`[wecom] stream ${state.streamId} 超长内容补发失败: ${String(err)}`);
+    });
+}
+
+// 防重放：默认允许 5 分钟的 timestamp 偏差，窗口内同一 nonce 只接受一次
+// 企业微信重试的同一条消息由解密后的 msgid 去重应答，不依赖 nonce
+const DEFAULT_REPLAY_WINDOW_SECONDS = 300;
+const NONCE_CACHE_MAX_ENTRIES = 10_000;
+const seenNonces = new Map<string, Map<string, number>>(); // accountId -> nonce -> 过期时间
+const replayRejections = new Map<string, number>(); // accountId -> 累计拒绝次数
+
+/**
+ * 校验回调是否为重放请求
+ * @returns 拒绝原因；通过校验时返回 null
+ */
+function checkReplay(account: ResolvedWecomAccount, timestamp: string, nonce: string): string | null {
+  const windowSeconds = account.config.replayWindowSeconds ?? DEFAULT_REPLAY_WINDOW_SECONDS;
+  if (windowSeconds <= 0) return null;
+
+  const now = Date.now();
+  const ts = Number(timestamp);
+  if (!Number.isFinite(ts) || Math.abs(now / 1000 - ts) > windowSeconds) {
+    return "timestamp out of window";
+  }
+
+  let cache = seenNonces.get(account.accountId);
+  if (!cache) {
+    cache = new Map();
+    seenNonces.set(account.accountId, cache);
+  }
+  const expiresAt = cache.get(nonce);
+  if (expiresAt !== undefined && expiresAt > now) {
+    return "nonce reused";
+  }
+
+  // Map 按插入顺序迭代：先清理过期项，仍超出上限时淘汰最早的记录
+  if (cache.size >= NONCE_CACHE_MAX_ENTRIES) {
+    for (const [key, expiry] of cache) {
+      if (expiry <= now) cache.delete(key);
+    }
+    while (cache.size >= NONCE_CACHE_MAX_ENTRIES) {
+      const oldest = cache.keys().next().value;
+      if (oldest === undefined) break;
+      cache.delete(oldest);
     }
   }
+  cache.delete(nonce);
+  cache.set(nonce, now + windowSeconds * 2 * 1000);
+  return null;
 }
 
 function jsonOk(res: ServerResponse, body: unknown): void {
@@ -466,7 +953,10 @@ function jsonOk(res: ServerResponse, body: unknown): void {
   res.end(JSON.stringify(body));
 }
 
-async function readJsonBody(req: IncomingMessage, maxBytes: number) {
+/**
+ * 读取回调请求体：智能机器人为 JSON，自建应用为 XML
+ */
+async function readCallbackBody(req: IncomingMessage, maxBytes: number) {
   const chunks: Buffer[] = [];
   let total = 0;
   return await new Promise<{ ok: boolean; value?: unknown; error?: string }>((resolve) => {
@@ -486,6 +976,10 @@ async function readJsonBody(req: IncomingMessage, maxBytes: number) {
           resolve({ ok: false, error: "empty payload" });
           return;
         }
+        if (raw.trimStart().startsWith("<")) {
+          resolve({ ok: true, value: parseWecomXml(raw) });
+          return;
+        }
         resolve({ ok: true, value: JSON.parse(raw) as unknown });
       } catch (err) {
         resolve({ ok: false, error: err instanceof Error ? err.message : String(err) });
@@ -559,13 +1053,32 @@ function resolveSignatureParam(params: URLSearchParams): string {
   );
 }
 
-function buildStreamPlaceholderReply(streamId: string): { msgtype: "stream"; stream: { id: string; finish: boolean; content: string } } {
+function buildStreamPlaceholderReply(streamId: string): {
+  msgtype: "stream";
+  stream: { id: string; finish: boolean; content: string; feedback: { id: string } };
+} {
   return {
     msgtype: "stream",
     stream: {
       id: streamId,
       finish: false,
       content: "收到，请稍等……",
+      // 首次回复时设置反馈 id，用户对回答的评价通过 feedback_event 关联回该 stream
+      feedback: { id: streamId },
+    },
+  };
+}
+
+/**
+ * 一次性结束的 stream 回复（用于拒绝、配对提示等无需 agent 的场景）
+ */
+function buildStreamTextReply(content: string): StreamReply {
+  return {
+    msgtype: "stream",
+    stream: {
+      id: createStreamId(),
+      finish: true,
+      content,
     },
   };
 }
@@ -576,17 +1089,33 @@ type StreamReplyMsgItem = {
 };
 
 type StreamReply = {
-  msgtype: "stream";
+  msgtype: "stream" | "stream_with_template_card";
   stream: {
     id: string;
     finish: boolean;
     content: string;
     msg_item?: StreamReplyMsgItem[];
   };
+  template_card?: WecomTemplateCard;
 };
 
+/**
+ * 组合当前可展示的 stream 内容：已交付 block + 生成中的文本 + 进度提示
+ */
+function composeStreamContent(state: StreamState): string {
+  if (state.finished) {
+    if (state.files.length === 0 || state.filesSent) return state.content;
+    return [state.content, formatFileLinks(state.files)].filter((part) => part.trim()).join("\n\n");
+  }
+  return maskTemplateCardBlocks(maskDataUrlImages(
+    [state.content, state.partial, state.progress]
+      .filter((part): part is string => Boolean(part?.trim()))
+      .join("\n\n"),
+  ));
+}
+
 function buildStreamReplyFromState(state: StreamState): StreamReply {
-  const content = truncateUtf8Bytes(state.content, STREAM_MAX_BYTES);
+  const { head: content } = splitStreamContent(composeStreamContent(state));
 
   const reply: StreamReply = {
     msgtype: "stream",
@@ -599,12 +1128,18 @@ function buildStreamReplyFromState(state: StreamState): StreamReply {
 
   // 只有在 finish=true 时才能发送图片
   if (state.finished && state.images.length > 0) {
-    reply.stream.msg_item = state.images.slice(0, 10).map((img) => ({
+    reply.stream.msg_item = state.images.slice(0, MAX_STREAM_IMAGES).map((img) => ({
       msgtype: "image" as const,
       image: { base64: img.base64, md5: img.md5 },
     }));
   }
 
+  // 模板卡片随结束帧一起发送
+  if (state.finished && state.card) {
+    reply.msgtype = "stream_with_template_card";
+    reply.template_card = state.card;
+  }
+
   return reply;
 }
 
@@ -628,13 +1163,40 @@ function parseWecomPlainMessage(raw: string): WecomInboundMessage {
   return parsed as WecomInboundMessage;
 }
 
+type WecomAgentRoute = ReturnType<PluginRuntime["channel"]["routing"]["resolveAgentRoute"]>;
+
+function resolveInboundRoute(target: WecomWebhookTarget, msg: WecomInboundMessage): WecomAgentRoute {
+  const userid = msg.from?.userid?.trim() || "unknown";
+  const chatType = msg.chattype === "group" ? "group" : "direct";
+  const chatId = msg.chattype === "group" ? (msg.chatid?.trim() || "unknown") : userid;
+  return target.core.channel.routing.resolveAgentRoute({
+    cfg: target.config,
+    channel: "wecom",
+    accountId: target.account.accountId,
+    peer: { kind: chatType === "group" ? "group" : "dm", id: chatId },
+  });
+}
+
+function isStopCommand(msg: WecomInboundMessage): boolean {
+  if (String(msg.msgtype ?? "").toLowerCase() !== "text") return false;
+  const content = String((msg as WecomInboundText).text?.content ?? "")
+    // 群聊中 @机器人 的前缀
+    .replace(/^@\S+\s*/, "")
+    .trim()
+    .toLowerCase();
+  return STOP_COMMANDS.has(content);
+}
+
 async function startAgentForStream(params: {
   target: WecomWebhookTarget;
   accountId: string;
   msg: WecomInboundMessage;
   streamId: string;
+  route: WecomAgentRoute;
+  signal?: AbortSignal;
+  merged?: WecomInboundMessage[]; // 合并模式下一并处理的前序消息
 }): Promise<void> {
-  const { target, msg, streamId } = params;
+  const { target, msg, streamId, route, signal } = params;
   const core = target.core;
   const config = target.config;
   const account = target.account;
@@ -643,22 +1205,35 @@ async function startAgentForStream(params: {
   const chatType = msg.chattype === "group" ? "group" : "direct";
   const chatId = msg.chattype === "group" ? (msg.chatid?.trim() || "unknown") : userid;
 
-  // 使用异步函数处理图片下载
-  const rawBody = await buildInboundBodyWithImages(msg, target.runtime.log);
-
-  const route = core.channel.routing.resolveAgentRoute({
-    cfg: config,
-    channel: "wecom",
-    accountId: account.accountId,
-    peer: { kind: chatType === "group" ? "group" : "dm", id: chatId },
+  const storePath = core.channel.session.resolveStorePath(config.session?.store, {
+    agentId: route.agentId,
   });
 
+  // 使用异步函数处理图片下载，图片保存到会话媒体目录
+  const mediaOptions: InboundMediaOptions = {
+    policy: resolveDownloadPolicy(account.config),
+    mediaDir: resolveInboundMediaDir(storePath, route.sessionKey),
+    encodingAESKey: account.mode === "app" ? undefined : account.encodingAESKey,
+    log: target.runtime.log,
+  };
+  // 引用块只放入 envelope 正文，RawBody/CommandBody 保持用户原文，不影响命令解析
+  const bodies: string[] = [];
+  const envelopeBodies: string[] = [];
+  const media: WecomInboundMedia[] = [];
+  for (const entry of [...(params.merged ?? []), msg]) {
+    const quote = await buildInboundQuote(entry, mediaOptions);
+    const built = await buildInboundBodyWithMedia(entry, mediaOptions);
+    bodies.push(built.body);
+    envelopeBodies.push(quote ? `${quote.body}\n\n${built.body}` : built.body);
+    media.push(...(quote?.media ?? []), ...built.media);
+  }
+  const rawBody = bodies.filter((part) => part.trim()).join("\n\n");
+  const envelopeBody = envelopeBodies.filter((part) => part.trim()).join("\n\n");
+  if (signal?.aborted) return;
+
   logVerbose(target, `starting agent processing (streamId=${streamId}, agentId=${route.agentId}, peerKind=${chatType}, peerId=${chatId})`);
 
   const fromLabel = chatType === "group" ? `group:${chatId}` : `user:${userid}`;
-  const storePath = core.channel.session.resolveStorePath(config.session?.store, {
-    agentId: route.agentId,
-  });
   const envelopeOptions = core.channel.reply.resolveEnvelopeFormatOptions(config);
   const previousTimestamp = core.channel.session.readSessionUpdatedAt({
     storePath,
@@ -669,7 +1244,7 @@ async function startAgentForStream(params: {
     from: fromLabel,
     previousTimestamp,
     envelope: envelopeOptions,
-    body: rawBody,
+    body: envelopeBody,
   });
 
   const ctxPayload = core.channel.reply.finalizeInboundContext({
@@ -689,6 +1264,7 @@ async function startAgentForStream(params: {
     MessageSid: msg.msgid,
     OriginatingChannel: "wecom",
     OriginatingTo: `wecom:${chatId}`,
+    ...buildInboundMediaContext(media),
   });
 
   await core.channel.session.recordInboundSession({
@@ -706,34 +1282,109 @@ async function startAgentForStream(params: {
     accountId: account.accountId,
   });
 
+  // onPartialReply 回传的是当前 assistant 消息的累计文本，其中已作为 block 交付的
+  // 前缀需要跳过，避免与 content 重复展示。跳过的长度以 block 在累计文本中的结束位置为准：
+  // block 交付时累计文本可能已多出后续内容，也可能尚未包含整个 block
+  let partialSeen = "";
+  let partialOffset = 0;
+  let pendingBlock = "";
+  const skipDeliveredBlock = (text: string) => {
+    const at = pendingBlock ? text.indexOf(pendingBlock, partialOffset) : -1;
+    if (at < 0) return;
+    partialOffset = at + pendingBlock.length;
+    pendingBlock = "";
+  };
+  // 累计文本尚未包含整个已交付的 block 时没有新内容可展示
+  const renderPartial = () =>
+    pendingBlock
+      ? undefined
+      : formatWecomText(core.channel.text.convertMarkdownTables(partialSeen.slice(partialOffset), tableMode), "stream").trim() ||
+        undefined;
+
   await core.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
     ctx: ctxPayload,
     cfg: config,
     dispatcherOptions: {
       deliver: async (payload) => {
-        const text = core.channel.text.convertMarkdownTables(payload.text ?? "", tableMode);
+        const text = formatWecomText(core.channel.text.convertMarkdownTables(payload.text ?? "", tableMode), "stream");
         const current = streams.get(streamId);
-        if (!current) return;
+        if (!current || current.finished) return;
         const nextText = current.content
           ? `${current.content}\n\n${text}`.trim()
           : text.trim();
-        current.content = truncateUtf8Bytes(nextText, STREAM_MAX_BYTES);
+        current.content = nextText;
+        current.progress = undefined;
+        pendingBlock = (payload.text ?? "").trim();
+        skipDeliveredBlock(partialSeen);
+        current.partial = renderPartial();
         current.updatedAt = Date.now();
+        scheduleStreamPersist();
         target.statusSink?.({ lastOutboundAt: Date.now() });
       },
       onError: (err, info) => {
         target.runtime.error?.(`[${account.accountId}] wecom ${info.kind} reply failed: ${String(err)}`);
       },
     },
+    replyOptions: {
+      onPartialReply: (payload) => {
+        const current = streams.get(streamId);
+        if (!current || current.finished) return;
+        const text = payload.text ?? "";
+        // 新的 assistant 消息开始：累计文本不再以上一条为前缀
+        if (!text.startsWith(partialSeen.slice(0, partialOffset))) {
+          partialOffset = 0;
+          pendingBlock = "";
+        }
+        skipDeliveredBlock(text);
+        // 累计文本已超过 block 长度仍找不到 block 时不再等待
+        if (pendingBlock && text.length - partialOffset > pendingBlock.length) pendingBlock = "";
+        partialSeen = text;
+        current.partial = renderPartial();
+        current.progress = undefined;
+        current.updatedAt = Date.now();
+        scheduleStreamPersist();
+      },
+      onToolStart: () => {
+        const current = streams.get(streamId);
+        if (!current || current.finished) return;
+        current.progress = TOOL_PROGRESS_TEXT;
+        current.updatedAt = Date.now();
+      },
+      abortSignal: signal,
+    },
   });
 
+  // 被停止或打断的运行已由队列结束 stream
+  if (signal?.aborted) return;
+
   const current = streams.get(streamId);
   if (current) {
-    // 在结束前处理文本中的图片和文件
+    // 没有任何 block 交付（例如运行中断）时，保留已生成的文本
+    if (!current.content.trim() && current.partial) {
+      current.content = current.partial;
+    }
+    current.partial = undefined;
+    current.progress = undefined;
+
+    // 在结束前处理文本中的模板卡片、图片和文件
     try {
+      // 处理模板卡片
+      const { text: textAfterCard, card, errors } = extractTemplateCard(current.content);
+      for (const error of errors) {
+        target.runtime.error?.(`[${account.accountId}] wecom template card ignored: ${error}`);
+      }
+      if (card) {
+        current.content = textAfterCard;
+        current.card = card;
+      }
+
       // 处理图片
-      const { text: textAfterImages, images } = await processImagesInText(current.content);
-      if (images.length > 0) {
+      const { text: textAfterImages, images } = await processImagesInText(
+        current.content,
+        resolveDownloadPolicy(account.config),
+        target.runtime.log,
+      );
+      if (images.length > 0 || current.content.includes("data:image/")) {
         current.content = textAfterImages;
         current.images = images;
       }
@@ -748,8 +1399,7 @@ async function startAgentForStream(params: {
       target.runtime.error?.(`[${account.accountId}] wecom media processing failed: ${String(err)}`);
     }
 
-    current.finished = true;
-    current.updatedAt = Date.now();
+    finishStream(current, target.runtime);
   }
 }
 
@@ -786,6 +1436,23 @@ function buildInboundBody(msg: WecomInboundMessage): string {
     const url = String((msg as WecomInboundFile).file?.url ?? "").trim();
     return url ? `[file] ${url}` : "[file]";
   }
+  if (msgtype === "video") {
+    return "[video]";
+  }
+  if (msgtype === "location") {
+    const location = (msg as WecomInboundLocation).location;
+    if (!location) return "[location]";
+    const coords = location.latitude !== undefined && location.longitude !== undefined
+      ? ` (${location.latitude}, ${location.longitude})`
+      : "";
+    return `[location] ${location.label ?? ""}${coords}`.trim();
+  }
+  if (msgtype === "link") {
+    const link = (msg as WecomInboundLink).link;
+    return ["[link]", link?.title, link?.url, link?.description]
+      .filter((part): part is string => Boolean(part?.trim()))
+      .join("\n");
+  }
   if (msgtype === "event") {
     const eventtype = String((msg as WecomInboundEvent).event?.eventtype ?? "").trim();
     return eventtype ? `[event] ${eventtype}` : "[event]";
@@ -797,30 +1464,70 @@ function buildInboundBody(msg: WecomInboundMessage): string {
   return msgtype ? `[${msgtype}]` : "";
 }
 
+type InboundMediaOptions = {
+  policy: WecomDownloadPolicy;
+  mediaDir: string;
+  // 智能机器人回调中的图片、文件使用 encodingAESKey 加密；自建应用的媒体不加密
+  encodingAESKey?: string;
+  log?: (message: string) => void;
+};
+
+// 入站图片、文件的大小上限
+const MAX_INBOUND_FILE_SIZE = 20 * 1024 * 1024;
+// 文本文件直接放入正文的大小上限，超过时作为附件传递
+const MAX_INBOUND_TEXT_BYTES = 32 * 1024;
+
 /**
- * 从图片 URL 下载图片并转换为 data URL
+ * 下载入站媒体并解密：优先使用消息自带的 aeskey（长连接），否则使用账号的 encodingAESKey
+ * 无法解密时按未加密内容处理
  */
-async function downloadAndConvertToDataUrl(
-  imageUrl: string,
-  log?: (message: string) => void,
-): Promise<string | null> {
-  try {
-    const result = await downloadImageFromUrl(imageUrl);
-    if (!result) {
+async function downloadInboundMedia(
+  url: string,
+  aeskey: string | undefined,
+  options: InboundMediaOptions,
+): Promise<{ buffer: Buffer; contentType: string; filename?: string } | null> {
+  const { policy, log } = options;
+  const result = await downloadFile({ url, maxBytes: MAX_INBOUND_FILE_SIZE, policy, log });
+  if (!result || "tooLarge" in result) {
+    log?.(`[wecom] 无法下载${result ? "（超过大小上限）" : ""}: ${url.slice(0, 80)}`);
+    return null;
+  }
+
+  const key = aeskey?.trim() || options.encodingAESKey;
+  if (!key) return result;
+  try {
+    return { ...result, buffer: decryptWecomMedia({ encodingAESKey: key, data: result.buffer }) };
+  } catch (err) {
+    log?.(`[wecom] 媒体解密失败，按未加密内容处理: ${String(err)}`);
+    return result;
+  }
+}
+
+/**
+ * 下载用户发送的图片并保存到会话媒体目录
+ */
+async function downloadInboundImage(
+  imageUrl: string,
+  aeskey: string | undefined,
+  options: InboundMediaOptions,
+): Promise<WecomInboundMedia | null> {
+  const { mediaDir, log } = options;
+  try {
+    const result = await downloadInboundMedia(imageUrl, aeskey, options);
+    // 加密图片的响应类型通常不是 image/*，以文件头为准
+    const contentType = result ? sniffImageContentType(result.buffer) : null;
+    if (!result || !contentType) {
       log?.(`[wecom] 无法下载图片: ${imageUrl}`);
       return null;
     }
 
-    // 根据 contentType 确定图片格式
-    let mimeType = result.contentType;
-    if (!mimeType.startsWith("image/")) {
-      mimeType = "image/png"; // 默认使用 PNG
-    }
-
-    // 构建 data URL
-    const dataUrl = `data:${mimeType};base64,${result.base64}`;
-    log?.(`[wecom] 图片下载成功: ${imageUrl.slice(0, 50)}... -> data URL (${result.buffer.length} bytes)`);
-    return dataUrl;
+    const media = await saveInboundMedia({
+      dir: mediaDir,
+      buffer: result.buffer,
+      contentType,
+    });
+    log?.(`[wecom] 图片下载成功: ${imageUrl.slice(0, 50)}... -> ${media.path} (${result.buffer.length} bytes)`);
+    return media;
   } catch (err) {
     log?.(`[wecom] 图片下载失败: ${imageUrl} - ${String(err)}`);
     return null;
@@ -828,28 +1535,83 @@ async function downloadAndConvertToDataUrl(
 }
 
 /**
- * 异步构建入站消息体，处理图片下载
+ * 下载用户发送的文件并保存到会话媒体目录
+ * 较小的文本文件提取内容放入正文，其他文件作为附件传递
+ */
+async function downloadInboundFile(
+  url: string,
+  aeskey: string | undefined,
+  options: InboundMediaOptions,
+): Promise<{ body: string; media: WecomInboundMedia[] } | null> {
+  const { mediaDir, log } = options;
+  try {
+    const result = await downloadInboundMedia(url, aeskey, options);
+    if (!result) return null;
+
+    const filename = result.filename || extractFilenameFromUrl(url);
+    const saved = await saveInboundMedia({
+      dir: mediaDir,
+      buffer: result.buffer,
+      contentType: result.contentType,
+      filename,
+    });
+    log?.(`[wecom] 文件下载成功: ${filename} -> ${saved.path} (${result.buffer.length} bytes)`);
+
+    const header = `[用户发送了文件: ${filename}，已保存到 ${saved.path}]`;
+    const text = extractInboundText({
+      buffer: result.buffer,
+      contentType: result.contentType,
+      filename,
+      maxBytes: MAX_INBOUND_TEXT_BYTES,
+    });
+    if (text !== null) {
+      return { body: `${header}\n<file name="${filename}">\n${text.trimEnd()}\n</file>`, media: [] };
+    }
+    return { body: header, media: [saved] };
+  } catch (err) {
+    log?.(`[wecom] 文件下载失败: ${url} - ${String(err)}`);
+    return null;
+  }
+}
+
+/**
+ * 异步构建入站消息体，下载图片、文件并作为媒体附件传递
+ * 正文中只保留占位文字，不支持图片的模型也能知道用户发送了图片
  */
-async function buildInboundBodyWithImages(
+async function buildInboundBodyWithMedia(
   msg: WecomInboundMessage,
-  log?: (message: string) => void,
-): Promise<string> {
+  options: InboundMediaOptions,
+): Promise<{ body: string; media: WecomInboundMedia[] }> {
   const msgtype = String(msg.msgtype ?? "").toLowerCase();
+  const { log } = options;
 
   // 处理图片消息
   if (msgtype === "image") {
-    const url = String((msg as WecomInboundImage).image?.url ?? "").trim();
+    const image = (msg as WecomInboundImage).image;
+    const url = String(image?.url ?? "").trim();
     if (url) {
       log?.(`[wecom] 收到图片消息，尝试下载: ${url.slice(0, 80)}...`);
-      const dataUrl = await downloadAndConvertToDataUrl(url, log);
-      if (dataUrl) {
-        // 返回 data URL，AI 可以识别
-        return `[用户发送了一张图片]\n${dataUrl}`;
+      const media = await downloadInboundImage(url, image?.aeskey, options);
+      if (media) {
+        return { body: `[用户发送了一张图片: ${media.path}]`, media: [media] };
       }
       // 下载失败，返回原始 URL
-      return `[用户发送了一张图片，但下载失败]\n原始链接: ${url}`;
+      return { body: `[用户发送了一张图片，但下载失败]\n原始链接: ${url}`, media: [] };
     }
-    return "[image]";
+    return { body: "[image]", media: [] };
+  }
+
+  // 处理文件消息
+  if (msgtype === "file") {
+    const file = (msg as WecomInboundFile).file;
+    const url = String(file?.url ?? "").trim();
+    if (url) {
+      log?.(`[wecom] 收到文件消息，尝试下载: ${url.slice(0, 80)}...`);
+      const built = await downloadInboundFile(url, file?.aeskey, options);
+      if (built) return built;
+      return { body: `[用户发送了一个文件，但下载失败]\n原始链接: ${url}`, media: [] };
+    }
+    return { body: "[file]", media: [] };
   }
 
   // 处理混合消息（图文混合）
@@ -857,6 +1619,7 @@ async function buildInboundBodyWithImages(
     const items = (msg as WecomInboundMixed).mixed?.msg_item;
     if (Array.isArray(items)) {
       const parts: string[] = [];
+      const media: WecomInboundMedia[] = [];
       for (const item of items) {
         const t = String(item?.msgtype ?? "").toLowerCase();
         if (t === "text") {
@@ -866,9 +1629,10 @@ async function buildInboundBodyWithImages(
           const url = String(item?.image?.url ?? "").trim();
           if (url) {
             log?.(`[wecom] 混合消息中收到图片，尝试下载: ${url.slice(0, 80)}...`);
-            const dataUrl = await downloadAndConvertToDataUrl(url, log);
-            if (dataUrl) {
-              parts.push(`[图片]\n${dataUrl}`);
+            const saved = await downloadInboundImage(url, item.image?.aeskey, options);
+            if (saved) {
+              media.push(saved);
+              parts.push(`[图片: ${saved.path}]`);
             } else {
               parts.push(`[图片下载失败]\n原始链接: ${url}`);
             }
@@ -879,13 +1643,379 @@ async function buildInboundBodyWithImages(
           parts.push(`[${t || "item"}]`);
         }
       }
-      return parts.filter(Boolean).join("\n\n");
+      return { body: parts.filter(Boolean).join("\n\n"), media };
     }
-    return "[mixed]";
+    return { body: "[mixed]", media: [] };
   }
 
   // 其他消息类型使用同步函数
-  return buildInboundBody(msg);
+  return { body: buildInboundBody(msg), media: [] };
+}
+
+/**
+ * 将引用的消息渲染为引用块，引用中的图片、文件与普通消息一样下载
+ */
+async function buildInboundQuote(
+  msg: WecomInboundMessage,
+  options: InboundMediaOptions,
+): Promise<{ body: string; media: WecomInboundMedia[] } | null> {
+  const quote = (msg as WecomInboundText | WecomInboundVoice).quote;
+  if (!quote || typeof quote !== "object" || !quote.msgtype) return null;
+
+  const built = await buildInboundBodyWithMedia(quote as WecomInboundMessage, options);
+  const text = built.body.trim();
+  if (!text) return null;
+  const lines = text.split("\n").map((line) => `> ${line}`.trimEnd());
+  return { body: `[引用消息]\n${lines.join("\n")}`, media: built.media };
+}
+
+/**
+ * 处理解密后的入站消息（HTTP 回调与长连接共用），返回需要被动回复的明文 JSON
+ * delivery 为 proactive 时（自建应用），agent 结束后通过主动消息发送完整回复
+ */
+export async function dispatchWecomInboundMessage(
+  target: WecomWebhookTarget,
+  msg: WecomInboundMessage,
+  options: { delivery?: StreamState["delivery"] } = {},
+): Promise<unknown> {
+  const msgtype = String(msg.msgtype ?? "").toLowerCase();
+  const msgid = msg.msgid ? String(msg.msgid) : undefined;
+
+  // Stream refresh callback: reply with current state (if any).
+  if (msgtype === "stream") {
+    const streamId = String((msg as WecomInboundStreamRefresh).stream?.id ?? "").trim();
+    const state = streamId ? streams.get(streamId) : undefined;
+    if (state) {
+      // 更新最后刷新时间
+      state.lastRefreshAt = Date.now();
+      logVerbose(target, `stream refresh streamId=${streamId} started=${state.started} finished=${state.finished}`);
+    }
+    const reply = state ? buildStreamReplyFromState(state) : buildStreamReplyFromState({
+      streamId: streamId || "unknown",
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      lastRefreshAt: Date.now(),
+      started: true,
+      finished: true,
+      content: "",
+      images: [],
+      files: [],
+      proactiveSent: false,
+    });
+
+    // 结束帧即将返回：超出 stream 上限的剩余内容通过主动消息补发
+    if (state?.finished) {
+      markStreamDelivered(state);
+      sendStreamOverflow(state, target.runtime);
+    }
+    return reply;
+  }
+
+  // Dedupe: if we already created a stream for this msgid, return placeholder again.
+  if (msgid && msgidToStreamId.has(msgid)) {
+    return buildStreamPlaceholderReply(msgidToStreamId.get(msgid) ?? "");
+  }
+
+  // enter_chat welcome event: optionally reply with text (allowed by spec).
+  if (msgtype === "event") {
+    const eventtype = String((msg as WecomInboundEvent).event?.eventtype ?? "").toLowerCase();
+    if (eventtype === "enter_chat") {
+      const welcome = target.account.config.welcomeText?.trim();
+      return welcome ? { msgtype: "text", text: { content: welcome } } : {};
+    }
+    if (eventtype === "template_card_event") {
+      return await handleTemplateCardEvent(target, msg as WecomInboundTemplateCardEvent);
+    }
+    if (eventtype === "feedback_event") {
+      await recordFeedbackEvent(target, msg as WecomInboundFeedbackEvent);
+      return {};
+    }
+
+    // For other events, reply empty to avoid timeouts.
+    return {};
+  }
+
+  let core: PluginRuntime | null = null;
+  try {
+    core = getWecomRuntime();
+  } catch (err) {
+    // If runtime is not ready, we can't process the agent, but we should still
+    // return the placeholder if possible, or handle it as a background error.
+    logVerbose(target, `runtime not ready, skipping agent processing: ${String(err)}`);
+  }
+
+  // 确定发送目标（用于超时补发）
+  const userid = msg.from?.userid?.trim() || "";
+  const chatType = msg.chattype === "group" ? "group" : "direct";
+  const chatId = msg.chattype === "group" ? (msg.chatid?.trim() || "") : userid;
+
+  // 私聊访问策略：在启动 agent 之前判定
+  if (chatType === "direct") {
+    const access = await resolveWecomDmAccess({ account: target.account, senderId: userid, core });
+    if (!access.allowed) {
+      logVerbose(target, `dm from ${userid || "unknown"} blocked by policy (${access.reason})`);
+      if (access.reason === "allowlist") {
+        return buildStreamTextReply(DM_NOT_ALLOWED_TEXT);
+      }
+      // 配对码只在首次私聊时回复，审批前的后续消息不再重复发送
+      if (access.reason === "pairing" && access.created && core) {
+        return buildStreamTextReply(core.channel.pairing.buildPairingReply({
+          channel: "wecom",
+          idLine: `你的企业微信 userid：${userid}`,
+          code: access.code,
+        }));
+      }
+      return {};
+    }
+  }
+
+  const enrichedTarget: WecomWebhookTarget | null = core ? { ...target, core } : null;
+  const route = enrichedTarget ? resolveInboundRoute(enrichedTarget, msg) : null;
+
+  // 停止指令：中止该会话正在运行的 agent 并清空排队消息
+  if (route && isStopCommand(msg)) {
+    const stopped = stopSession(route.sessionKey);
+    logVerbose(target, `stop command for session ${route.sessionKey} (stopped=${stopped})`);
+    return buildStreamTextReply(stopped ? "已停止当前回复。" : "当前没有进行中的回复。");
+  }
+
+  // Default: respond with a stream placeholder and compute the actual reply async.
+  const streamId = createStreamId();
+  if (msgid) msgidToStreamId.set(msgid, streamId);
+
+  const now = Date.now();
+  streams.set(streamId, {
+    streamId,
+    msgid,
+    createdAt: now,
+    updatedAt: now,
+    lastRefreshAt: now,
+    started: false,
+    finished: false,
+    content: "",
+    images: [],
+    files: [],
+    proactiveSent: false,
+    target: chatId,
+    isGroup: chatType === "group",
+    account: target.account,
+    sessionKey: route?.sessionKey,
+    responseUrl: msg.response_url?.trim() || undefined,
+    delivery: options.delivery,
+  });
+  scheduleStreamPersist();
+
+  // 启动超时检查定时器
+  startTimeoutChecker();
+
+  // Kick off agent processing in the background.
+  if (enrichedTarget && route) {
+    const queued = enqueueSessionItem({
+      sessionKey: route.sessionKey,
+      mode: target.account.config.queue?.mode ?? "serialize",
+      item: {
+        streamId,
+        msg,
+        run: async ({ signal, merged }) => {
+          const state = streams.get(streamId);
+          if (!state || state.finished) return;
+          state.started = true;
+          state.progress = undefined;
+          try {
+            await startAgentForStream({
+              target: enrichedTarget,
+              accountId: target.account.accountId,
+              msg,
+              streamId,
+              route,
+              signal,
+              merged: merged.map((entry) => entry.msg),
+            });
+          } catch (err) {
+            if (!state.finished) {
+              state.error = err instanceof Error ? err.message : String(err);
+              state.content = state.content || `Error: ${state.error}`;
+              finishStream(state, target.runtime);
+            }
+            target.runtime.error?.(`[${target.account.accountId}] wecom agent failed: ${String(err)}`);
+          }
+        },
+        cancel: (reason) => {
+          const state = streams.get(streamId);
+          if (!state || state.finished) return;
+          const content = [state.content, state.partial].filter((part) => part?.trim()).join("\n\n");
+          state.content = content ? `${content}\n\n${QUEUE_CANCEL_NOTICES[reason]}` : QUEUE_CANCEL_NOTICES[reason];
+          state.partial = undefined;
+          state.progress = undefined;
+          state.started = true;
+          finishStream(state, target.runtime);
+        },
+      },
+    });
+    if (queued) {
+      streams.get(streamId)!.progress = QUEUED_PROGRESS_TEXT;
+    }
+  } else {
+    // In tests or uninitialized state, we might not have a core.
+    // We mark it as finished to avoid hanging, but don't set an error content
+    // immediately if we want to return the placeholder "1".
+    const state = streams.get(streamId);
+    if (state) {
+      state.finished = true;
+      state.updatedAt = Date.now();
+    }
+  }
+
+  logVerbose(target, `accepted msgtype=${msgtype || "unknown"} msgid=${msgid || "none"} streamId=${streamId}`);
+
+  // 首次直接返回，让企业微信通过刷新获取内容
+  const state = streams.get(streamId);
+  if (!state?.content.trim()) return buildStreamPlaceholderReply(streamId);
+  if (state.finished) markStreamDelivered(state);
+  return buildStreamReplyFromState(state);
+}
+
+const FEEDBACK_RATINGS: Record<number, WecomFeedbackRating> = { 1: "like", 2: "dislike", 3: "cancel" };
+
+/**
+ * 回答反馈事件：按反馈 id（即 streamId）关联回答，写入反馈日志并更新统计
+ */
+async function recordFeedbackEvent(target: WecomWebhookTarget, msg: WecomInboundFeedbackEvent): Promise<void> {
+  const feedback = msg.event.feedback_event;
+  const feedbackId = feedback?.id?.trim();
+  const rating = feedback?.type !== undefined ? FEEDBACK_RATINGS[feedback.type] : undefined;
+  if (!feedbackId || !rating) {
+    logVerbose(target, `ignoring feedback event id=${feedbackId ?? ""} type=${String(feedback?.type)}`);
+    return;
+  }
+  if (!target.feedbackLog) {
+    logVerbose(target, `feedback ${rating} for stream ${feedbackId} not recorded (no feedback log)`);
+    return;
+  }
+
+  // stream 已过期时仍记录评价，只是缺少会话和回答内容
+  const state = streams.get(feedbackId);
+  try {
+    const counts = await target.feedbackLog.append({
+      at: Date.now(),
+      feedbackId,
+      rating,
+      comment: feedback?.content?.trim() || undefined,
+      reasons: feedback?.inaccurate_reason_list?.length ? feedback.inaccurate_reason_list : undefined,
+      userid: msg.from?.userid?.trim() || undefined,
+      msgid: state?.msgid,
+      sessionKey: state?.sessionKey,
+      reply: state?.content,
+    });
+    target.statusSink?.({ feedbackLikes: counts.likes, feedbackDislikes: counts.dislikes, lastFeedbackAt: Date.now() });
+  } catch (err) {
+    target.runtime.error?.(`[${target.account.accountId}] wecom feedback log failed: ${String(err)}`);
+  }
+}
+
+/**
+ * 查找仍在内存中的 stream 发送过的模板卡片
+ */
+function findSentTemplateCard(taskId: string): WecomTemplateCard | undefined {
+  for (const state of streams.values()) {
+    if (state.card?.task_id === taskId) return state.card;
+  }
+  return undefined;
+}
+
+/**
+ * 模板卡片交互事件：作为一条用户消息（如 `[clicked: approve]`）进入原会话，
+ * 事件回调无法返回 stream，agent 的回复通过 response_url 或出站 API 发送。
+ * 被点击的卡片更新为「已处理」：智能机器人通过被动回复更新，自建应用调用 update_template_card 接口
+ */
+async function handleTemplateCardEvent(target: WecomWebhookTarget, msg: WecomInboundTemplateCardEvent): Promise<unknown> {
+  const click = parseTemplateCardEvent(msg.event.template_card_event);
+  if (!click) return {};
+  logVerbose(target, `template card event key=${click.eventKey} task_id=${click.taskId ?? ""}`);
+
+  // 合成消息使用独立的 msgid：事件重试时不会命中事件本身的去重，合成消息也不会重复进入会话
+  const { event: _event, ...base } = msg;
+  const turn: WecomInboundText = {
+    ...base,
+    msgid: base.msgid ? `${base.msgid}:template_card_event` : undefined,
+    msgtype: "text",
+    text: { content: formatTemplateCardClick(click) },
+  };
+  await dispatchWecomInboundMessage(target, turn, { delivery: "proactive" });
+
+  const userid = msg.from?.userid?.trim();
+  if (click.responseCode && userid && target.account.outboundConfigured) {
+    try {
+      await getWecomApiClient(target.account).updateTemplateCardButton({
+        userids: [userid],
+        responseCode: click.responseCode,
+        replaceName: TEMPLATE_CARD_PROCESSED_TEXT,
+      });
+    } catch (err) {
+      target.runtime.error?.(`[${target.account.accountId}] wecom template card update failed: ${String(err)}`);
+    }
+    return {};
+  }
+
+  const card = click.taskId ? findSentTemplateCard(click.taskId) : undefined;
+  return card
+    ? { response_type: "update_template_card", template_card: buildProcessedTemplateCard(card, TEMPLATE_CARD_PROCESSED_TEXT) }
+    : {};
+}
+
+/**
+ * 自建应用消息：复用智能机器人的处理流程，无需 agent 的即时回复（拒绝、配对提示、停止确认等）
+ * 直接通过主动消息发送
+ */
+async function handleAppInboundMessage(target: WecomWebhookTarget, msg: WecomInboundMessage): Promise<void> {
+  const userid = msg.from?.userid?.trim();
+  if (!userid) return;
+
+  if (String(msg.msgtype ?? "").toLowerCase() === "event") {
+    const eventtype = String((msg as WecomInboundEvent).event?.eventtype ?? "").toLowerCase();
+    const welcome = target.account.config.welcomeText?.trim();
+    if (eventtype === "template_card_event") {
+      await dispatchWecomInboundMessage(target, msg, { delivery: "proactive" });
+    } else if (eventtype === "enter_agent" && welcome) {
+      await sendProactiveMessage({
+        account: target.account,
+        target: userid,
+        isGroup: false,
+        content: welcome,
+        images: [],
+        files: [],
+        log: target.runtime.log,
+      });
+    }
+    return;
+  }
+
+  const reply = await dispatchWecomInboundMessage(target, msg, { delivery: "proactive" });
+  const stream = (reply as Partial<StreamReply>).stream;
+  if (stream?.finish && stream.content.trim() && !streams.has(stream.id)) {
+    await sendProactiveMessage({
+      account: target.account,
+      target: userid,
+      isGroup: false,
+      content: stream.content,
+      images: [],
+      files: [],
+      log: target.runtime.log,
+    });
+  }
+}
+
+/**
+ * 启动时从反馈日志恢复统计
+ */
+export function publishFeedbackCounts(target: WecomWebhookTarget): void {
+  if (!target.feedbackLog || !target.statusSink) return;
+  target.feedbackLog.counts().then(
+    (counts) => target.statusSink?.({ feedbackLikes: counts.likes, feedbackDislikes: counts.dislikes }),
+    (err: unknown) => {
+      target.runtime.error?.(`[${target.account.accountId}] wecom feedback log load failed: ${String(err)}`);
+    },
+  );
 }
 
 export function registerWecomWebhookTarget(target: WecomWebhookTarget): () => void {
@@ -894,7 +2024,16 @@ export function registerWecomWebhookTarget(target: WecomWebhookTarget): () => vo
   const existing = webhookTargets.get(key) ?? [];
   const next = [...existing, normalizedTarget];
   webhookTargets.set(key, next);
+  if (normalizedTarget.streamStore) {
+    streamsRestoring = streamsRestoring.then(() => restoreStreams(normalizedTarget));
+    startTimeoutChecker();
+  }
+  publishFeedbackCounts(normalizedTarget);
   return () => {
+    // 注销前写入最新状态，供重新注册或重启后恢复
+    if (normalizedTarget.streamStore) {
+      persistStreams().catch(() => {});
+    }
     const updated = (webhookTargets.get(key) ?? []).filter((entry) => entry !== normalizedTarget);
     if (updated.length > 0) webhookTargets.set(key, updated);
     else webhookTargets.delete(key);
@@ -911,6 +2050,9 @@ export async function handleWecomWebhookRequest(
 
   const firstTarget = targets[0]!;
 
+  // 等待持久化 stream 恢复完成，避免把重启前的重试当作新消息
+  await streamsRestoring;
+
   // 清理过期 stream 并检查超时补发
   pruneStreams(firstTarget.runtime.log);
 
@@ -983,7 +2125,7 @@ export async function handleWecomWebhookRequest(
     return true;
   }
 
-  const body = await readJsonBody(req, 1024 * 1024);
+  const body = await readCallbackBody(req, 1024 * 1024);
   if (!body.ok) {
     logVerbose(firstTarget, `POST body read failed: ${body.error}`);
     res.statusCode = body.error === "payload too large" ? 413 : 400;
@@ -1028,6 +2170,18 @@ export async function handleWecomWebhookRequest(
     return true;
   }
 
+  // 签名覆盖 timestamp 与 nonce，验签通过后再做防重放校验
+  const replay = checkReplay(target.account, timestamp, nonce);
+  if (replay) {
+    const count = (replayRejections.get(target.account.accountId) ?? 0) + 1;
+    replayRejections.set(target.account.accountId, count);
+    target.statusSink?.({ replayRejections: count, lastReplayRejectedAt: Date.now() });
+    target.runtime.log?.(`[wecom] rejected replayed callback (${replay}, timestamp=${timestamp}, nonce=${nonce})`);
+    res.statusCode = 403;
+    res.end(replay);
+    return true;
+  }
+
   let plain: string;
   try {
     plain = decryptWecomEncrypted({
@@ -1044,159 +2198,27 @@ export async function handleWecomWebhookRequest(
     return true;
   }
 
-  const msg = parseWecomPlainMessage(plain);
   target.statusSink?.({ lastInboundAt: Date.now() });
 
-  const msgtype = String(msg.msgtype ?? "").toLowerCase();
-  const msgid = msg.msgid ? String(msg.msgid) : undefined;
-
-  // Stream refresh callback: reply with current state (if any).
-  if (msgtype === "stream") {
-    const streamId = String((msg as WecomInboundStreamRefresh).stream?.id ?? "").trim();
-    const state = streamId ? streams.get(streamId) : undefined;
-    if (state) {
-      // 更新最后刷新时间
-      state.lastRefreshAt = Date.now();
-      logVerbose(target, `stream refresh streamId=${streamId} started=${state.started} finished=${state.finished}`);
-    }
-    const reply = state ? buildStreamReplyFromState(state) : buildStreamReplyFromState({
-      streamId: streamId || "unknown",
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-      lastRefreshAt: Date.now(),
-      started: true,
-      finished: true,
-      content: "",
-      images: [],
-      files: [],
-      proactiveSent: false,
-    });
-
-    jsonOk(res, buildEncryptedJsonReply({
-      account: target.account,
-      plaintextJson: reply,
-      nonce,
-      timestamp,
-    }));
-    return true;
-  }
-
-  // Dedupe: if we already created a stream for this msgid, return placeholder again.
-  if (msgid && msgidToStreamId.has(msgid)) {
-    const streamId = msgidToStreamId.get(msgid) ?? "";
-    const reply = buildStreamPlaceholderReply(streamId);
-    jsonOk(res, buildEncryptedJsonReply({
-      account: target.account,
-      plaintextJson: reply,
-      nonce,
-      timestamp,
-    }));
-    return true;
-  }
-
-  // enter_chat welcome event: optionally reply with text (allowed by spec).
-  if (msgtype === "event") {
-    const eventtype = String((msg as WecomInboundEvent).event?.eventtype ?? "").toLowerCase();
-    if (eventtype === "enter_chat") {
-      const welcome = target.account.config.welcomeText?.trim();
-      const reply = welcome
-        ? { msgtype: "text", text: { content: welcome } }
-        : {};
-      jsonOk(res, buildEncryptedJsonReply({
-        account: target.account,
-        plaintextJson: reply,
-        nonce,
-        timestamp,
-      }));
-      return true;
+  // 自建应用：回调只需尽快应答空串，回复一律通过主动消息 API 发送
+  if (target.account.mode === "app") {
+    res.statusCode = 200;
+    res.end("");
+    const appMsg = normalizeWecomAppMessage(parseWecomXml(plain), plain);
+    if (appMsg) {
+      handleAppInboundMessage(target, appMsg).catch((err) => {
+        target.runtime.error?.(`[${target.account.accountId}] wecom app message failed: ${String(err)}`);
+      });
     }
-
-    // For other events, reply empty to avoid timeouts.
-    jsonOk(res, buildEncryptedJsonReply({
-      account: target.account,
-      plaintextJson: {},
-      nonce,
-      timestamp,
-    }));
     return true;
   }
 
-  // Default: respond with a stream placeholder and compute the actual reply async.
-  const streamId = createStreamId();
-  if (msgid) msgidToStreamId.set(msgid, streamId);
-
-  // 确定发送目标（用于超时补发）
-  const userid = msg.from?.userid?.trim() || "";
-  const chatType = msg.chattype === "group" ? "group" : "direct";
-  const chatId = msg.chattype === "group" ? (msg.chatid?.trim() || "") : userid;
-
-  const now = Date.now();
-  streams.set(streamId, {
-    streamId,
-    msgid,
-    createdAt: now,
-    updatedAt: now,
-    lastRefreshAt: now,
-    started: false,
-    finished: false,
-    content: "",
-    images: [],
-    files: [],
-    proactiveSent: false,
-    target: chatId,
-    isGroup: chatType === "group",
-    account: target.account,
-  });
-
-  // 启动超时检查定时器
-  startTimeoutChecker();
-
-  // Kick off agent processing in the background.
-  let core: PluginRuntime | null = null;
-  try {
-    core = getWecomRuntime();
-  } catch (err) {
-    // If runtime is not ready, we can't process the agent, but we should still
-    // return the placeholder if possible, or handle it as a background error.
-    logVerbose(target, `runtime not ready, skipping agent processing: ${String(err)}`);
-  }
-
-  if (core) {
-    streams.get(streamId)!.started = true;
-    const enrichedTarget: WecomWebhookTarget = { ...target, core };
-    startAgentForStream({ target: enrichedTarget, accountId: target.account.accountId, msg, streamId }).catch((err) => {
-      const state = streams.get(streamId);
-      if (state) {
-        state.error = err instanceof Error ? err.message : String(err);
-        state.content = state.content || `Error: ${state.error}`;
-        state.finished = true;
-        state.updatedAt = Date.now();
-      }
-      target.runtime.error?.(`[${target.account.accountId}] wecom agent failed: ${String(err)}`);
-    });
-  } else {
-    // In tests or uninitialized state, we might not have a core.
-    // We mark it as finished to avoid hanging, but don't set an error content
-    // immediately if we want to return the placeholder "1".
-    const state = streams.get(streamId);
-    if (state) {
-      state.finished = true;
-      state.updatedAt = Date.now();
-    }
-  }
-
-  // 首次直接返回，让企业微信通过刷新获取内容
-  const state = streams.get(streamId);
-  const initialReply = state?.content.trim()
-    ? buildStreamReplyFromState(state)
-    : buildStreamPlaceholderReply(streamId);
+  const reply = await dispatchWecomInboundMessage(target, parseWecomPlainMessage(plain));
   jsonOk(res, buildEncryptedJsonReply({
     account: target.account,
-    plaintextJson: initialReply,
+    plaintextJson: reply,
     nonce,
     timestamp,
   }));
-
-  logVerbose(target, `accepted msgtype=${msgtype || "unknown"} msgid=${msgid || "none"} streamId=${streamId}`);
   return true;
 }
@@ -1,47 +1,19 @@
-import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
-import type { AddressInfo } from "node:net";
-
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 
 import type { OpenclawConfig, PluginRuntime } from "openclaw/plugin-sdk";
 
-import type { ResolvedWecomAccount } from "./types.js";
 import { computeWecomMsgSignature, decryptWecomEncrypted, encryptWecomPlaintext } from "./crypto.js";
-import { handleWecomWebhookRequest, registerWecomWebhookTarget } from "./monitor.js";
-
-async function withServer(
-  handler: (req: IncomingMessage, res: ServerResponse) => Promise<void>,
-  fn: (baseUrl: string) => Promise<void>,
-) {
-  const server = createServer(handler);
-  await new Promise<void>((resolve) => {
-    server.listen(0, "127.0.0.1", () => resolve());
-  });
-  const address = server.address() as AddressInfo | null;
-  if (!address) throw new Error("missing server address");
-  try {
-    await fn(`http://127.0.0.1:${address.port}`);
-  } finally {
-    await new Promise<void>((resolve) => server.close(() => resolve()));
-  }
-}
+import { registerWecomWebhookTarget } from "./monitor.js";
+import { setWecomRuntime } from "./runtime.js";
+import { createMemoryStreamStore } from "./stream-store.js";
+import { createFakeRuntime, createTestAccount, postCallback, serveWebhook, TEST_ENCODING_AES_KEY, TEST_TOKEN, withServer } from "./test-helpers.js";
 
 describe("handleWecomWebhookRequest", () => {
-  const token = "test-token";
-  const encodingAESKey = "abcdefghijklmnopqrstuvwxyz0123456789ABCDEFG";
+  const token = TEST_TOKEN;
+  const encodingAESKey = TEST_ENCODING_AES_KEY;
 
   it("handles GET url verification", async () => {
-    const account: ResolvedWecomAccount = {
-      accountId: "default",
-      name: "Test",
-      enabled: true,
-      configured: true,
-      token,
-      encodingAESKey,
-      receiveId: "",
-      outboundConfigured: false,
-      config: { webhookPath: "/hook", token, encodingAESKey },
-    };
+    const account = createTestAccount();
 
     const unregister = registerWecomWebhookTarget({
       account,
@@ -52,13 +24,7 @@ describe("handleWecomWebhookRequest", () => {
     });
 
     try {
-      await withServer(async (req, res) => {
-        const handled = await handleWecomWebhookRequest(req, res);
-        if (!handled) {
-          res.statusCode = 404;
-          res.end("not found");
-        }
-      }, async (baseUrl) => {
+      await withServer(serveWebhook, async (baseUrl) => {
         const timestamp = "13500001234";
         const nonce = "123412323";
         const echostr = encryptWecomPlaintext({
@@ -79,17 +45,7 @@ describe("handleWecomWebhookRequest", () => {
   });
 
   it("handles POST callback and returns encrypted stream placeholder", async () => {
-    const account: ResolvedWecomAccount = {
-      accountId: "default",
-      name: "Test",
-      enabled: true,
-      configured: true,
-      token,
-      encodingAESKey,
-      receiveId: "",
-      outboundConfigured: false,
-      config: { webhookPath: "/hook", token, encodingAESKey },
-    };
+    const account = createTestAccount();
 
     const unregister = registerWecomWebhookTarget({
       account,
@@ -100,14 +56,8 @@ describe("handleWecomWebhookRequest", () => {
     });
 
     try {
-      await withServer(async (req, res) => {
-        const handled = await handleWecomWebhookRequest(req, res);
-        if (!handled) {
-          res.statusCode = 404;
-          res.end("not found");
-        }
-      }, async (baseUrl) => {
-        const timestamp = "1700000000";
+      await withServer(serveWebhook, async (baseUrl) => {
+        const timestamp = String(Math.floor(Date.now() / 1000));
         const nonce = "nonce";
         const plain = JSON.stringify({
           msgid: "MSGID",
@@ -151,7 +101,7 @@ describe("handleWecomWebhookRequest", () => {
           stream?: { content: string; finish: boolean; id: string };
         };
         expect(reply.msgtype).toBe("stream");
-        expect(reply.stream?.content).toBe("1");
+        expect(reply.stream?.content).toBe("收到，请稍等……");
         expect(reply.stream?.finish).toBe(false);
         expect(typeof reply.stream?.id).toBe("string");
         expect(reply.stream?.id.length).toBeGreaterThan(0);
@@ -168,4 +118,439 @@ describe("handleWecomWebhookRequest", () => {
       unregister();
     }
   });
+
+  it("refuses direct messages from senders outside dm.allowFrom", async () => {
+    const account = createTestAccount({ config: { dm: { policy: "allowlist", allowFrom: ["alice"] } } });
+
+    const unregister = registerWecomWebhookTarget({
+      account,
+      config: {} as OpenclawConfig,
+      runtime: {},
+      core: {} as PluginRuntime,
+      path: "/hook",
+    });
+
+    try {
+      await withServer(serveWebhook, async (baseUrl) => {
+        const reply = await postCallback(baseUrl, {
+          msgid: "MSGID-ALLOWLIST",
+          chattype: "single",
+          from: { userid: "mallory" },
+          msgtype: "text",
+          text: { content: "hello" },
+        });
+        const stream = reply.stream as { finish: boolean; content: string };
+        expect(reply.msgtype).toBe("stream");
+        expect(stream.finish).toBe(true);
+        expect(stream.content).toContain("权限");
+      });
+    } finally {
+      unregister();
+    }
+  });
+
+  it("ignores direct messages when dm.policy is disabled", async () => {
+    const account = createTestAccount({ config: { dm: { policy: "disabled" } } });
+
+    const unregister = registerWecomWebhookTarget({
+      account,
+      config: {} as OpenclawConfig,
+      runtime: {},
+      core: {} as PluginRuntime,
+      path: "/hook",
+    });
+
+    try {
+      await withServer(serveWebhook, async (baseUrl) => {
+        const reply = await postCallback(baseUrl, {
+          msgid: "MSGID-DISABLED",
+          chattype: "single",
+          from: { userid: "alice" },
+          msgtype: "text",
+          text: { content: "hello" },
+        });
+        expect(reply).toEqual({});
+      });
+    } finally {
+      unregister();
+    }
+  });
+
+  it("replies with the pairing code on first contact and lets the sender in after approval", async () => {
+    const account = createTestAccount({ config: { dm: { policy: "pairing" } } });
+    const allowFrom: string[] = [];
+    const requests = new Set<string>();
+    const dispatched: string[] = [];
+    setWecomRuntime(createFakeRuntime(async ({ ctx }) => {
+      dispatched.push(String(ctx.Body));
+    }, {
+      pairing: {
+        readAllowFromStore: async () => [...allowFrom],
+        upsertPairingRequest: async ({ id }: { id: string }) => {
+          const created = !requests.has(id);
+          requests.add(id);
+          return { code: "PAIR-CODE", created };
+        },
+        buildPairingReply: ({ idLine, code }: { idLine: string; code: string }) => `${idLine}\n配对码：${code}`,
+      } as Partial<PluginRuntime["channel"]["pairing"]>,
+    }));
+
+    const unregister = registerWecomWebhookTarget({
+      account,
+      config: {} as OpenclawConfig,
+      runtime: {},
+      core: {} as PluginRuntime,
+      path: "/hook",
+    });
+
+    const message = (msgid: string) => ({
+      msgid,
+      chattype: "single",
+      from: { userid: "Carol" },
+      msgtype: "text",
+      text: { content: "hello" },
+    });
+
+    try {
+      await withServer(serveWebhook, async (baseUrl) => {
+        const first = await postCallback(baseUrl, message("MSGID-PAIRING-1"));
+        expect(first.stream).toMatchObject({ finish: true, content: "你的企业微信 userid：Carol\n配对码：PAIR-CODE" });
+
+        // 审批前的后续消息不再重复回复配对码
+        const second = await postCallback(baseUrl, message("MSGID-PAIRING-2"));
+        expect(second).toEqual({});
+        expect(dispatched).toEqual([]);
+
+        allowFrom.push("carol");
+        const approved = await postCallback(baseUrl, message("MSGID-PAIRING-3"));
+        expect(approved.stream).toMatchObject({ finish: false });
+        await vi.waitFor(() => expect(dispatched).toHaveLength(1));
+      });
+    } finally {
+      unregister();
+    }
+  });
+
+  it("accepts self-built app XML callbacks with an empty reply", async () => {
+    const corpId = "ww-test-corp";
+    const account = createTestAccount({
+      mode: "app",
+      receiveId: corpId,
+      corpId,
+      agentId: 1000002,
+      secret: "app-secret",
+      outboundConfigured: true,
+      config: { mode: "app", dm: { policy: "disabled" } },
+    });
+
+    const unregister = registerWecomWebhookTarget({
+      account,
+      config: {} as OpenclawConfig,
+      runtime: {},
+      core: {} as PluginRuntime,
+      path: "/hook",
+    });
+
+    try {
+      await withServer(serveWebhook, async (baseUrl) => {
+        const plaintext = [
+          "<xml>",
+          `<ToUserName><![CDATA[${corpId}]]></ToUserName>`,
+          "<FromUserName><![CDATA[alice]]></FromUserName>",
+          "<CreateTime>1348831860</CreateTime>",
+          "<MsgType><![CDATA[text]]></MsgType>",
+          "<Content><![CDATA[hello]]></Content>",
+          "<MsgId>1234567890123456</MsgId>",
+          "<AgentID>1000002</AgentID>",
+          "</xml>",
+        ].join("");
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        const nonce = "app-nonce";
+        const encrypt = encryptWecomPlaintext({ encodingAESKey, receiveId: corpId, plaintext });
+        const msg_signature = computeWecomMsgSignature({ token, timestamp, nonce, encrypt });
+        const response = await fetch(
+          `${baseUrl}/hook?msg_signature=${encodeURIComponent(msg_signature)}&timestamp=${timestamp}&nonce=${nonce}`,
+          {
+            method: "POST",
+            headers: { "content-type": "text/xml" },
+            body: `<xml><ToUserName><![CDATA[${corpId}]]></ToUserName><Encrypt><![CDATA[${encrypt}]]></Encrypt><AgentID><![CDATA[1000002]]></AgentID></xml>`,
+          },
+        );
+        expect(response.status).toBe(200);
+        expect(await response.text()).toBe("");
+      });
+    } finally {
+      unregister();
+    }
+  });
+
+  it("restores persisted streams and msgid dedupe after a restart", async () => {
+    const account = createTestAccount({ accountId: "restored" });
+    const now = Date.now();
+    const streamStore = createMemoryStreamStore([
+      {
+        streamId: "done-stream",
+        accountId: "restored",
+        msgid: "MSGID-DONE",
+        createdAt: now - 1000,
+        updatedAt: now - 500,
+        started: true,
+        finished: true,
+        content: "answer before restart",
+        files: [],
+        delivered: true,
+      },
+      {
+        streamId: "open-stream",
+        accountId: "restored",
+        msgid: "MSGID-OPEN",
+        createdAt: now - 1000,
+        updatedAt: now - 500,
+        started: true,
+        finished: false,
+        content: "first block",
+        partial: "partial answer",
+        files: [],
+        delivered: false,
+      },
+    ]);
+
+    const unregister = registerWecomWebhookTarget({
+      account,
+      config: {} as OpenclawConfig,
+      runtime: {},
+      core: {} as PluginRuntime,
+      path: "/hook",
+      streamStore,
+    });
+
+    try {
+      await withServer(serveWebhook, async (baseUrl) => {
+        const retry = await postCallback(baseUrl, {
+          msgid: "MSGID-DONE",
+          chattype: "single",
+          from: { userid: "alice" },
+          msgtype: "text",
+          text: { content: "hello" },
+        });
+        expect((retry.stream as { id: string }).id).toBe("done-stream");
+
+        const done = await postCallback(baseUrl, { msgtype: "stream", stream: { id: "done-stream" } });
+        expect(done.stream).toMatchObject({ finish: true, content: "answer before restart" });
+
+        const reopened = await postCallback(baseUrl, { msgtype: "stream", stream: { id: "open-stream" } });
+        expect(reopened.stream).toMatchObject({ finish: true });
+        expect((reopened.stream as { content: string }).content).toContain("first block");
+        expect((reopened.stream as { content: string }).content).toContain("partial answer");
+        expect((reopened.stream as { content: string }).content).toContain("服务重启");
+
+        // 结束帧返回后记录为已送达，再次重启不会重复投递
+        await vi.waitFor(async () => {
+          const saved = await streamStore.load();
+          expect(saved.find((entry) => entry.streamId === "open-stream")).toMatchObject({
+            finished: true,
+            delivered: true,
+          });
+        });
+      });
+    } finally {
+      unregister();
+    }
+  });
+
+  it("redelivers streams that stopped refreshing before the restart once via response_url", async () => {
+    const account = createTestAccount({ accountId: "redeliver" });
+    const posts: Array<Record<string, unknown>> = [];
+
+    await withServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      posts.push(JSON.parse(Buffer.concat(chunks).toString("utf8")) as Record<string, unknown>);
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ errcode: 0, errmsg: "ok" }));
+    }, async (baseUrl) => {
+      const now = Date.now();
+      const streamStore = createMemoryStreamStore([
+        {
+          streamId: "stale-stream",
+          accountId: "redeliver",
+          msgid: "MSGID-STALE",
+          createdAt: now - 60_000,
+          updatedAt: now - 30_000,
+          lastRefreshAt: now - 30_000,
+          started: true,
+          finished: false,
+          content: "",
+          partial: "half an answer",
+          files: [],
+          target: "alice",
+          responseUrl: `${baseUrl}/reply`,
+          delivered: false,
+        },
+      ]);
+      const unregister = registerWecomWebhookTarget({
+        account,
+        config: {} as OpenclawConfig,
+        runtime: {},
+        core: {} as PluginRuntime,
+        path: "/hook",
+        streamStore,
+      });
+
+      try {
+        await vi.waitFor(async () => {
+          const saved = await streamStore.load();
+          expect(saved.find((entry) => entry.streamId === "stale-stream")?.delivered).toBe(true);
+        }, { timeout: 10_000, interval: 200 });
+        expect(posts).toHaveLength(1);
+        expect(JSON.stringify(posts[0])).toContain("half an answer");
+        expect(JSON.stringify(posts[0])).toContain("服务重启");
+      } finally {
+        unregister();
+      }
+    });
+  }, 15_000);
+
+  it("redelivers a timed-out stream that only carries a file link", async () => {
+    const account = createTestAccount({ accountId: "redeliver-file" });
+    const posts: Array<Record<string, unknown>> = [];
+
+    await withServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      posts.push(JSON.parse(Buffer.concat(chunks).toString("utf8")) as Record<string, unknown>);
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ errcode: 0, errmsg: "ok" }));
+    }, async (baseUrl) => {
+      const now = Date.now();
+      // 回复只有文件链接：链接已从文本中移除，content 为空
+      const streamStore = createMemoryStreamStore([
+        {
+          streamId: "file-only-stream",
+          accountId: "redeliver-file",
+          msgid: "MSGID-FILE-ONLY",
+          createdAt: now - 60_000,
+          updatedAt: now - 30_000,
+          lastRefreshAt: now - 30_000,
+          started: true,
+          finished: true,
+          content: "",
+          files: [{ url: "https://example.com/files/report.pdf", filename: "report.pdf" }],
+          target: "alice",
+          responseUrl: `${baseUrl}/reply`,
+          delivered: false,
+        },
+      ]);
+      const unregister = registerWecomWebhookTarget({
+        account,
+        config: {} as OpenclawConfig,
+        runtime: {},
+        core: {} as PluginRuntime,
+        path: "/hook",
+        streamStore,
+      });
+
+      try {
+        await vi.waitFor(async () => {
+          const saved = await streamStore.load();
+          expect(saved.find((entry) => entry.streamId === "file-only-stream")?.delivered).toBe(true);
+        }, { timeout: 10_000, interval: 200 });
+        expect(posts).toHaveLength(1);
+        expect(JSON.stringify(posts[0])).toContain("https://example.com/files/report.pdf");
+      } finally {
+        unregister();
+      }
+    });
+  }, 15_000);
+
+  it("rejects stale timestamps and reused nonces", async () => {
+    const account = createTestAccount({ accountId: "replay", config: { dm: { policy: "disabled" } } });
+    const patches: Array<Record<string, unknown>> = [];
+
+    const unregister = registerWecomWebhookTarget({
+      account,
+      config: {} as OpenclawConfig,
+      runtime: {},
+      core: {} as PluginRuntime,
+      path: "/hook",
+      statusSink: (patch) => patches.push(patch),
+    });
+
+    try {
+      await withServer(serveWebhook, async (baseUrl) => {
+        const post = (timestamp: string, nonce: string) => {
+          const encrypt = encryptWecomPlaintext({
+            encodingAESKey,
+            receiveId: "",
+            plaintext: JSON.stringify({ msgid: `MSGID-${nonce}`, msgtype: "text", text: { content: "hi" } }),
+          });
+          const msg_signature = computeWecomMsgSignature({ token, timestamp, nonce, encrypt });
+          return fetch(
+            `${baseUrl}/hook?msg_signature=${encodeURIComponent(msg_signature)}&timestamp=${encodeURIComponent(timestamp)}&nonce=${encodeURIComponent(nonce)}`,
+            {
+              method: "POST",
+              headers: { "content-type": "application/json" },
+              body: JSON.stringify({ encrypt }),
+            },
+          );
+        };
+        const now = String(Math.floor(Date.now() / 1000));
+
+        expect((await post(now, "replay-nonce")).status).toBe(200);
+        expect((await post(now, "replay-nonce")).status).toBe(403);
+        expect((await post(String(Math.floor(Date.now() / 1000) - 3600), "stale-nonce")).status).toBe(403);
+
+        const rejections = patches.filter((patch) => patch.replayRejections !== undefined);
+        expect(rejections.map((patch) => patch.replayRejections)).toEqual([1, 2]);
+      });
+    } finally {
+      unregister();
+    }
+  });
+
+  it("rejects byte-identical replays and answers retries of the same msgid from the dedupe", async () => {
+    const account = createTestAccount({ accountId: "retry", config: { dm: { policy: "open" } } });
+
+    const unregister = registerWecomWebhookTarget({
+      account,
+      config: {} as OpenclawConfig,
+      runtime: {},
+      core: {} as PluginRuntime,
+      path: "/hook",
+    });
+
+    try {
+      await withServer(serveWebhook, async (baseUrl) => {
+        const plain = { msgid: "MSGID-retry", msgtype: "text", text: { content: "hi" } };
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        const nonce = "retry-nonce";
+        const encrypt = encryptWecomPlaintext({ encodingAESKey, receiveId: "", plaintext: JSON.stringify(plain) });
+        const msg_signature = computeWecomMsgSignature({ token, timestamp, nonce, encrypt });
+        const replay = () => fetch(
+          `${baseUrl}/hook?msg_signature=${encodeURIComponent(msg_signature)}&timestamp=${encodeURIComponent(timestamp)}&nonce=${encodeURIComponent(nonce)}`,
+          {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({ encrypt }),
+          },
+        );
+
+        const first = await replay();
+        expect(first.status).toBe(200);
+        const firstJson = JSON.parse(await first.text()) as { encrypt: string };
+        const firstReply = JSON.parse(decryptWecomEncrypted({ encodingAESKey, receiveId: "", encrypt: firstJson.encrypt })) as {
+          stream?: { id: string };
+        };
+
+        // 原样重发的请求（nonce、签名、密文完全相同）属于重放
+        expect((await replay()).status).toBe(403);
+
+        // 同一 msgid 以新的 nonce 重试时由 msgid 去重返回同一个 stream
+        const retry = await postCallback(baseUrl, plain);
+        expect((retry.stream as { id: string }).id).toBe(firstReply.stream?.id);
+      });
+    } finally {
+      unregister();
+    }
+  });
 });
@@ -16,6 +16,10 @@ declare module "openclaw/plugin-sdk" {
     logging?: {
       shouldLogVerbose?: () => boolean;
     };
+    config: {
+      loadConfig: () => OpenclawConfig;
+      writeConfigFile: (cfg: OpenclawConfig) => Promise<void>;
+    };
     channel: {
       routing: {
         resolveAgentRoute: (params: {
@@ -52,8 +56,23 @@ declare module "openclaw/plugin-sdk" {
             deliver: (payload: { text?: string }) => Promise<void>;
             onError?: (err: unknown, info: { kind: string }) => void;
           };
+          replyOptions?: {
+            // Cumulative text of the assistant message currently being generated.
+            onPartialReply?: (payload: { text?: string }) => Promise<void> | void;
+            onToolStart?: (payload: { name?: string }) => Promise<void> | void;
+            abortSignal?: AbortSignal;
+          };
         }) => Promise<void>;
       };
+      pairing: {
+        readAllowFromStore: (channel: string) => Promise<string[]>;
+        upsertPairingRequest: (params: {
+          channel: string;
+          id: string;
+          meta?: Record<string, string | undefined>;
+        }) => Promise<{ code: string; created: boolean }>;
+        buildPairingReply: (params: { channel: string; idLine: string; code: string }) => string;
+      };
       text: {
         resolveMarkdownTableMode: (params: {
           cfg: OpenclawConfig;
@@ -146,6 +165,11 @@ declare module "openclaw/plugin-sdk" {
         normalizeEntry: (raw: string) => string;
       };
     };
+    pairing?: {
+      idLabel: string;
+      normalizeAllowEntry?: (entry: string) => string;
+      notifyApproval?: (params: { cfg: OpenclawConfig; id: string; accountId?: string }) => Promise<void>;
+    };
     groups: {
       resolveRequireMention: () => boolean;
     };
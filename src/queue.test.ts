@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+
+import { enqueueSessionItem, stopSession, type WecomQueueCancelReason, type WecomQueueItem } from "./queue.js";
+
+type TestItem = WecomQueueItem & {
+  runs: Array<{ signal: AbortSignal; merged: string[] }>;
+  cancelled: WecomQueueCancelReason[];
+  finish: () => void;
+};
+
+/**
+ * 队列项：run 在调用 finish 前保持运行，且不响应 abort（模拟忽略中止信号的 dispatcher）
+ */
+function createItem(streamId: string): TestItem {
+  let finish: () => void = () => {};
+  const done = new Promise<void>((resolve) => {
+    finish = resolve;
+  });
+  const item: TestItem = {
+    streamId,
+    msg: { msgid: streamId },
+    runs: [],
+    cancelled: [],
+    finish: () => finish(),
+    run: async ({ signal, merged }) => {
+      item.runs.push({ signal, merged: merged.map((entry) => entry.streamId) });
+      await done;
+    },
+    cancel: (reason) => {
+      item.cancelled.push(reason);
+    },
+  };
+  return item;
+}
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("session queue", () => {
+  it("merges messages that arrive while a run is active into the next run", async () => {
+    const first = createItem("m1");
+    const second = createItem("m2");
+    const third = createItem("m3");
+
+    expect(enqueueSessionItem({ sessionKey: "merge", mode: "merge", item: first })).toBe(false);
+    expect(enqueueSessionItem({ sessionKey: "merge", mode: "merge", item: second })).toBe(true);
+    expect(enqueueSessionItem({ sessionKey: "merge", mode: "merge", item: third })).toBe(true);
+    expect(second.runs).toHaveLength(0);
+
+    first.finish();
+    await settle();
+    expect(second.cancelled).toEqual(["merged"]);
+    expect(second.runs).toHaveLength(0);
+    expect(third.runs).toEqual([{ signal: expect.any(AbortSignal), merged: ["m2"] }]);
+    third.finish();
+  });
+
+  it("interrupts the active run but waits for it to end before starting the next message", async () => {
+    const first = createItem("i1");
+    const second = createItem("i2");
+    const third = createItem("i3");
+
+    enqueueSessionItem({ sessionKey: "interrupt", mode: "interrupt", item: first });
+    expect(enqueueSessionItem({ sessionKey: "interrupt", mode: "interrupt", item: second })).toBe(true);
+    expect(first.runs[0]!.signal.aborted).toBe(true);
+    expect(first.cancelled).toEqual(["interrupted"]);
+
+    // 被打断的运行忽略了中止信号：下一条消息不能在同一会话上并行运行
+    await settle();
+    expect(second.runs).toHaveLength(0);
+
+    // 再次打断时，等待中的消息被新消息替换，正在中止的运行不会重复取消
+    enqueueSessionItem({ sessionKey: "interrupt", mode: "interrupt", item: third });
+    expect(first.cancelled).toEqual(["interrupted"]);
+    expect(second.cancelled).toEqual(["interrupted"]);
+
+    first.finish();
+    await settle();
+    expect(second.runs).toHaveLength(0);
+    expect(third.runs).toHaveLength(1);
+    third.finish();
+  });
+
+  it("keeps a stopped session busy until the aborted run ends", async () => {
+    const first = createItem("s1");
+    const second = createItem("s2");
+
+    enqueueSessionItem({ sessionKey: "stop", mode: "serialize", item: first });
+    expect(stopSession("stop")).toBe(true);
+    expect(first.cancelled).toEqual(["stopped"]);
+    expect(stopSession("stop")).toBe(false);
+
+    expect(enqueueSessionItem({ sessionKey: "stop", mode: "serialize", item: second })).toBe(true);
+    await settle();
+    expect(second.runs).toHaveLength(0);
+
+    first.finish();
+    await settle();
+    expect(second.runs).toHaveLength(1);
+    second.finish();
+    await settle();
+    expect(stopSession("stop")).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * 按会话（路由后的 sessionKey）排队处理入站消息
+ * 同一会话同一时间只运行一个 agent，后续消息按配置的模式串行、合并或打断当前运行
+ */
+
+import type { WecomInboundMessage, WecomQueueConfig } from "./types.js";
+
+export type WecomQueueMode = NonNullable<WecomQueueConfig["mode"]>;
+
+export type WecomQueueCancelReason = "merged" | "interrupted" | "stopped";
+
+export type WecomQueueItem = {
+  streamId: string;
+  msg: WecomInboundMessage;
+  run: (params: { signal: AbortSignal; merged: WecomQueueItem[] }) => Promise<void>;
+  cancel: (reason: WecomQueueCancelReason) => void;
+};
+
+type SessionLane = {
+  mode: WecomQueueMode;
+  // 被中止的运行在 run 结束前仍占用会话，aborting 标记其已被停止或打断
+  active?: { item: WecomQueueItem; controller: AbortController; aborting?: boolean };
+  pending: WecomQueueItem[];
+};
+
+const lanes = new Map<string, SessionLane>();
+
+function drainLane(sessionKey: string): void {
+  const lane = lanes.get(sessionKey);
+  if (!lane || lane.active) return;
+  if (lane.pending.length === 0) {
+    lanes.delete(sessionKey);
+    return;
+  }
+
+  let item: WecomQueueItem;
+  let merged: WecomQueueItem[] = [];
+  if (lane.mode === "merge") {
+    // 等待中的消息合并为一轮，由最后一条消息的 stream 承载回复
+    const batch = lane.pending.splice(0);
+    item = batch.pop()!;
+    merged = batch;
+    for (const entry of merged) entry.cancel("merged");
+  } else {
+    item = lane.pending.shift()!;
+  }
+
+  const controller = new AbortController();
+  lane.active = { item, controller };
+  item
+    .run({ signal: controller.signal, merged })
+    .catch(() => {
+      // 运行错误由调用方在 run 内部处理
+    })
+    .finally(() => {
+      if (lane.active?.item === item) {
+        lane.active = undefined;
+      }
+      drainLane(sessionKey);
+    });
+}
+
+/**
+ * 中止运行中的 agent：stream 立即结束，但会话在 run 真正结束前不会开始下一条消息
+ * @returns 是否中止了尚未被中止的运行
+ */
+function abortActive(lane: SessionLane, reason: WecomQueueCancelReason): boolean {
+  const active = lane.active;
+  if (!active || active.aborting) return false;
+  active.aborting = true;
+  active.controller.abort();
+  active.item.cancel(reason);
+  return true;
+}
+
+/**
+ * 将消息加入会话队列；当前没有运行中的 agent 时立即开始
+ * @returns 是否需要等待（前面仍有运行中或正在中止的消息）
+ */
+export function enqueueSessionItem(params: {
+  sessionKey: string;
+  mode: WecomQueueMode;
+  item: WecomQueueItem;
+}): boolean {
+  const { sessionKey, mode, item } = params;
+  const lane = lanes.get(sessionKey) ?? { mode, pending: [] };
+  lane.mode = mode;
+  lanes.set(sessionKey, lane);
+
+  if (mode === "interrupt" && lane.active) {
+    abortActive(lane, "interrupted");
+    for (const entry of lane.pending.splice(0)) entry.cancel("interrupted");
+  }
+
+  lane.pending.push(item);
+  const queued = Boolean(lane.active);
+  drainLane(sessionKey);
+  return queued;
+}
+
+/**
+ * 停止会话中正在运行的 agent，并取消所有等待中的消息
+ * @returns 是否有被停止的运行或消息
+ */
+export function stopSession(sessionKey: string): boolean {
+  const lane = lanes.get(sessionKey);
+  if (!lane) return false;
+
+  const pending = lane.pending.splice(0);
+  for (const entry of pending) entry.cancel("stopped");
+
+  // 会话在被中止的 run 结束后由 drainLane 清理
+  const stopped = abortActive(lane, "stopped");
+  if (!lane.active) lanes.delete(sessionKey);
+  return stopped || pending.length > 0;
+}
@@ -1,7 +1,12 @@
-import type { PluginRuntime } from "openclaw/plugin-sdk";
+import path from "node:path";
+
+import type { OpenclawConfig, PluginRuntime } from "openclaw/plugin-sdk";
 
 let runtime: PluginRuntime | null = null;
 
+// 与 openclaw 默认 agent 一致，用于定位会话存储目录
+const DEFAULT_AGENT_ID = "main";
+
 export function setWecomRuntime(next: PluginRuntime): void {
   runtime = next;
 }
@@ -13,3 +18,12 @@ export function getWecomRuntime(): PluginRuntime {
   return runtime;
 }
 
+/**
+ * 插件状态文件目录（stream 持久化等），位于会话存储目录下的 wecom/ 子目录
+ */
+export function resolveWecomStateDir(cfg: OpenclawConfig): string {
+  const storePath = getWecomRuntime().channel.session.resolveStorePath(cfg.session?.store, {
+    agentId: DEFAULT_AGENT_ID,
+  });
+  return path.join(path.dirname(storePath), "wecom");
+}
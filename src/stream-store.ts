@@ -0,0 +1,83 @@
+/**
+ * stream 状态持久化
+ * 进程重启或插件重载后，用于恢复 msgid 去重映射、已完成的回复内容，以及未完成 stream 的补发
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { WecomTemplateCard } from "./types.js";
+
+/** 可持久化的 stream 字段（图片 base64 体积过大，不落盘） */
+export type PersistedWecomStream = {
+  streamId: string;
+  accountId: string;
+  msgid?: string;
+  createdAt: number;
+  updatedAt: number;
+  lastRefreshAt?: number;
+  started: boolean;
+  finished: boolean;
+  error?: string;
+  content: string;
+  partial?: string; // 生成中尚未作为 block 交付的文本
+  files: Array<{ url: string; filename: string }>;
+  card?: WecomTemplateCard;
+  delivered?: boolean; // 最终回复是否已送达；旧版本文件没有该字段，按 finished 处理
+  overflowSent?: boolean;
+  filesSent?: boolean;
+  target?: string;
+  isGroup?: boolean;
+  sessionKey?: string;
+  responseUrl?: string;
+  delivery?: "proactive";
+};
+
+export type WecomStreamStore = {
+  load: () => Promise<PersistedWecomStream[]>;
+  save: (streams: PersistedWecomStream[]) => Promise<void>;
+};
+
+type StreamStoreFile = {
+  version: 1;
+  streams: PersistedWecomStream[];
+};
+
+export function createMemoryStreamStore(initial: PersistedWecomStream[] = []): WecomStreamStore {
+  let snapshot = [...initial];
+  return {
+    load: async () => [...snapshot],
+    save: async (streams) => {
+      snapshot = [...streams];
+    },
+  };
+}
+
+/**
+ * 基于 JSON 文件的 stream 存储（先写临时文件再 rename，避免写到一半时崩溃损坏文件）
+ */
+export function createFileStreamStore(filePath: string): WecomStreamStore {
+  return {
+    load: async () => {
+      try {
+        const raw = await readFile(filePath, "utf8");
+        const parsed = JSON.parse(raw) as Partial<StreamStoreFile>;
+        return Array.isArray(parsed.streams) ? parsed.streams : [];
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw err;
+      }
+    },
+    save: async (streams) => {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      const data: StreamStoreFile = { version: 1, streams };
+      await writeFile(tmpPath, JSON.stringify(data), "utf8");
+      await rename(tmpPath, filePath);
+    },
+  };
+}
+
+export function resolveStreamStorePath(stateDir: string, accountId: string): string {
+  return path.join(stateDir, `streams-${accountId}.json`);
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  extractTemplateCard,
+  formatTemplateCardClick,
+  maskTemplateCardBlocks,
+  parseTemplateCard,
+  parseTemplateCardEvent,
+} from "./template-card.js";
+
+const fence = (json: string) => `\`\`\`wecom-card\n${json}\n\`\`\``;
+
+describe("parseTemplateCard", () => {
+  it("accepts a text notice card and generates a task_id", () => {
+    const parsed = parseTemplateCard({ card_type: "text_notice", main_title: { title: "构建完成" } });
+    expect(parsed).toMatchObject({ card: { card_type: "text_notice", main_title: { title: "构建完成" } } });
+    expect("card" in parsed && parsed.card.task_id).toMatch(/^card_/);
+  });
+
+  it("keeps an explicit task_id", () => {
+    const parsed = parseTemplateCard({
+      card_type: "vote_interaction",
+      task_id: "vote-1",
+      checkbox: { question_key: "q1", option_list: [{ id: "a", text: "A" }] },
+      submit_button: { text: "提交", key: "submit" },
+    });
+    expect(parsed).toMatchObject({ card: { task_id: "vote-1" } });
+  });
+
+  it("reports missing required fields with their path", () => {
+    const parsed = parseTemplateCard({ card_type: "button_interaction", button_list: [] });
+    expect(parsed).toHaveProperty("error");
+    expect("error" in parsed && parsed.error).toContain("button_list");
+  });
+
+  it("rejects unknown card types", () => {
+    expect(parseTemplateCard({ card_type: "news_notice" })).toHaveProperty("error");
+  });
+});
+
+describe("extractTemplateCard", () => {
+  it("removes a valid block and returns the card", () => {
+    const result = extractTemplateCard(`结果如下\n\n${fence('{"card_type":"text_notice","main_title":{"title":"完成"}}')}\n\n谢谢`);
+    expect(result.text).toBe("结果如下\n\n谢谢");
+    expect(result.card).toMatchObject({ card_type: "text_notice" });
+    expect(result.errors).toEqual([]);
+  });
+
+  it("leaves invalid blocks in the text and reports why", () => {
+    const text = `看这里\n${fence("{not json}")}`;
+    const result = extractTemplateCard(text);
+    expect(result.text).toBe(text);
+    expect(result.card).toBeUndefined();
+    expect(result.errors[0]).toContain("invalid JSON");
+  });
+
+  it("only sends the first valid card", () => {
+    const card = '{"card_type":"text_notice","main_title":{"title":"一"}}';
+    const result = extractTemplateCard(`${fence(card)}\n${fence(card.replace("一", "二"))}`);
+    expect(result.card).toMatchObject({ main_title: { title: "一" } });
+    expect(result.text).toBe("");
+    expect(result.errors).toHaveLength(1);
+  });
+});
+
+describe("maskTemplateCardBlocks", () => {
+  it("hides complete and still-streaming card blocks", () => {
+    expect(maskTemplateCardBlocks(`开始\n\n${fence("{}")}\n\n继续\n\n\`\`\`wecom-card\n{"card_type":`)).toBe("开始\n\n继续\n\n");
+  });
+});
+
+describe("template card events", () => {
+  it("formats button clicks and submitted options as a user turn", () => {
+    const button = parseTemplateCardEvent({ event_key: "approve", task_id: "t1" });
+    expect(button && formatTemplateCardClick(button)).toBe("[clicked: approve]");
+
+    const vote = parseTemplateCardEvent({
+      card_type: "vote_interaction",
+      event_key: "submit",
+      selected_items: {
+        selected_item: [
+          { question_key: "q1", option_ids: { option_id: ["a", "b"] } },
+          { question_key: "q2", option_ids: { option_id: ["c"] } },
+        ],
+      },
+    });
+    expect(vote && formatTemplateCardClick(vote)).toBe("[clicked: submit] q1: a, b; q2: c");
+  });
+
+  it("ignores events without an event key", () => {
+    expect(parseTemplateCardEvent({ task_id: "t1" })).toBeNull();
+    expect(parseTemplateCardEvent(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * 模板卡片回复
+ * agent 在回复中输出 ```wecom-card 代码块（JSON），校验通过后作为模板卡片发送：
+ * 有被动回复窗口时随 stream 结束帧发送（stream_with_template_card），否则通过 message/send 发送
+ * 用户点击卡片按钮或提交选项后，回调事件作为一条用户消息进入原会话
+ */
+
+import crypto from "node:crypto";
+
+import { z } from "zod";
+
+import type { WecomTemplateCard, WecomTemplateCardEvent } from "./types.js";
+
+const CARD_FENCE_PATTERN = /```wecom-card[ \t]*\r?\n([\s\S]*?)```/g;
+// 生成中尚未闭合的卡片代码块
+const OPEN_CARD_FENCE_PATTERN = /```wecom-card[\s\S]*$/;
+
+const keySchema = z.string().min(1).max(1024);
+const taskIdSchema = z.string().regex(/^[\w@-]{1,128}$/, "task_id 只能包含字母、数字和 _-@，最长 128 字节");
+
+const baseShape = {
+  source: z.object({
+    icon_url: z.string().optional(),
+    desc: z.string().optional(),
+    desc_color: z.number().int().min(0).max(3).optional(),
+  }).optional(),
+  main_title: z.object({ title: z.string().optional(), desc: z.string().optional() }).optional(),
+  emphasis_content: z.object({ title: z.string().optional(), desc: z.string().optional() }).optional(),
+  sub_title_text: z.string().optional(),
+  horizontal_content_list: z.array(z.object({
+    keyname: z.string().min(1),
+    value: z.string().optional(),
+    type: z.union([z.literal(0), z.literal(1)]).optional(),
+    url: z.string().optional(),
+  })).max(6).optional(),
+  jump_list: z.array(z.object({
+    type: z.union([z.literal(0), z.literal(1), z.literal(2)]),
+    title: z.string().min(1),
+    url: z.string().optional(),
+    appid: z.string().optional(),
+    pagepath: z.string().optional(),
+  })).max(3).optional(),
+  card_action: z.object({
+    type: z.union([z.literal(0), z.literal(1), z.literal(2)]),
+    url: z.string().optional(),
+    appid: z.string().optional(),
+    pagepath: z.string().optional(),
+  }).optional(),
+  task_id: taskIdSchema.optional(),
+};
+
+const submitButtonSchema = z.object({ text: z.string().min(1), key: keySchema });
+
+const templateCardSchema: z.ZodType<WecomTemplateCard> = z.discriminatedUnion("card_type", [
+  z.object({
+    ...baseShape,
+    card_type: z.literal("text_notice"),
+  }),
+  z.object({
+    ...baseShape,
+    card_type: z.literal("button_interaction"),
+    button_list: z.array(z.object({
+      text: z.string().min(1),
+      key: keySchema,
+      style: z.number().int().min(1).max(4).optional(),
+    })).min(1).max(6),
+  }),
+  z.object({
+    ...baseShape,
+    card_type: z.literal("vote_interaction"),
+    checkbox: z.object({
+      question_key: keySchema,
+      option_list: z.array(z.object({
+        id: z.string().min(1),
+        text: z.string().min(1),
+        is_checked: z.boolean().optional(),
+      })).min(1).max(20),
+      mode: z.union([z.literal(0), z.literal(1)]).optional(),
+    }),
+    submit_button: submitButtonSchema,
+  }),
+  z.object({
+    ...baseShape,
+    card_type: z.literal("multiple_interaction"),
+    select_list: z.array(z.object({
+      question_key: keySchema,
+      title: z.string().optional(),
+      selected_id: z.string().optional(),
+      option_list: z.array(z.object({ id: z.string().min(1), text: z.string().min(1) })).min(1).max(10),
+    })).min(1).max(3),
+    submit_button: submitButtonSchema,
+  }),
+]);
+
+function createTaskId(): string {
+  return `card_${Date.now()}_${crypto.randomBytes(4).toString("hex")}`;
+}
+
+/**
+ * 校验模板卡片，缺少 task_id 时自动生成（交互类卡片的回调通过 task_id 关联）
+ */
+export function parseTemplateCard(raw: unknown): { card: WecomTemplateCard } | { error: string } {
+  const result = templateCardSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "card"}: ${issue.message}`)
+      .join("; ");
+    return { error: issues };
+  }
+  return { card: { ...result.data, task_id: result.data.task_id ?? createTaskId() } };
+}
+
+/**
+ * 提取回复中的 wecom-card 代码块
+ * 校验通过的代码块从文本中移除，只发送第一张卡片；无法解析的代码块保留在文本中
+ */
+export function extractTemplateCard(text: string): { text: string; card?: WecomTemplateCard; errors: string[] } {
+  let card: WecomTemplateCard | undefined;
+  const errors: string[] = [];
+
+  const processed = text.replace(CARD_FENCE_PATTERN, (block, json: string) => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch (err) {
+      errors.push(`invalid JSON: ${String(err)}`);
+      return block;
+    }
+    const parsed = parseTemplateCard(raw);
+    if ("error" in parsed) {
+      errors.push(parsed.error);
+      return block;
+    }
+    if (card) {
+      errors.push("only one template card per reply, extra card dropped");
+    } else {
+      card = parsed.card;
+    }
+    return "";
+  });
+
+  if (!card) return { text, errors };
+  return { text: processed.replace(/\n{3,}/g, "\n\n").trim(), card, errors };
+}
+
+/**
+ * 隐藏生成中的卡片代码块，避免 stream 中显示 JSON
+ */
+export function maskTemplateCardBlocks(text: string): string {
+  return text.replace(CARD_FENCE_PATTERN, "").replace(OPEN_CARD_FENCE_PATTERN, "").replace(/\n{3,}/g, "\n\n");
+}
+
+/**
+ * 卡片交互：点击的按钮 key，以及投票、下拉选择提交的选项
+ */
+export type WecomTemplateCardClick = {
+  eventKey: string;
+  taskId?: string;
+  cardType?: string;
+  responseCode?: string;
+  selected: Array<{ questionKey: string; optionIds: string[] }>;
+};
+
+export function parseTemplateCardEvent(event: WecomTemplateCardEvent | undefined): WecomTemplateCardClick | null {
+  const eventKey = event?.event_key?.trim();
+  if (!event || !eventKey) return null;
+  const selected = (event.selected_items?.selected_item ?? [])
+    .map((item) => ({
+      questionKey: item.question_key?.trim() ?? "",
+      optionIds: (item.option_ids?.option_id ?? []).map((id) => String(id).trim()).filter(Boolean),
+    }))
+    .filter((item) => item.questionKey);
+  return {
+    eventKey,
+    taskId: event.task_id?.trim() || undefined,
+    cardType: event.card_type?.trim() || undefined,
+    responseCode: event.response_code?.trim() || undefined,
+    selected,
+  };
+}
+
+/**
+ * 卡片交互对应的用户消息，例如 `[clicked: approve]`、`[clicked: submit] q1: a, b`
+ */
+export function formatTemplateCardClick(click: WecomTemplateCardClick): string {
+  const selections = click.selected.map((item) => `${item.questionKey}: ${item.optionIds.join(", ")}`).join("; ");
+  return selections ? `[clicked: ${click.eventKey}] ${selections}` : `[clicked: ${click.eventKey}]`;
+}
+
+/**
+ * 点击后的卡片：保留原内容，按钮替换为不可点击的提示文案
+ */
+export function buildProcessedTemplateCard(card: WecomTemplateCard, replaceText: string): WecomTemplateCard {
+  return { ...card, replace_text: replaceText };
+}
@@ -0,0 +1,192 @@
+/**
+ * 测试共用的桩运行时、回调服务与加密回调请求
+ */
+
+import crypto from "node:crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import type { PluginRuntime } from "openclaw/plugin-sdk";
+
+import { computeWecomMsgSignature, decryptWecomEncrypted, encryptWecomPlaintext } from "./crypto.js";
+import { handleWecomWebhookRequest } from "./monitor.js";
+import type { ResolvedWecomAccount, WecomAccountConfig } from "./types.js";
+
+export type DispatchParams = Parameters<PluginRuntime["channel"]["reply"]["dispatchReplyWithBufferedBlockDispatcher"]>[0];
+
+export const TEST_TOKEN = "test-token";
+export const TEST_ENCODING_AES_KEY = "abcdefghijklmnopqrstuvwxyz0123456789ABCDEFG";
+
+/**
+ * 回调模式的测试账号：使用测试 token 与 EncodingAESKey，回调路径为 /hook；config 与默认配置合并
+ */
+export function createTestAccount(
+  overrides: Partial<Omit<ResolvedWecomAccount, "config">> & { config?: WecomAccountConfig } = {},
+): ResolvedWecomAccount {
+  const { config, ...fields } = overrides;
+  return {
+    accountId: "default",
+    name: "Test",
+    enabled: true,
+    configured: true,
+    token: TEST_TOKEN,
+    encodingAESKey: TEST_ENCODING_AES_KEY,
+    receiveId: "",
+    outboundConfigured: false,
+    ...fields,
+    config: { webhookPath: "/hook", token: TEST_TOKEN, encodingAESKey: TEST_ENCODING_AES_KEY, ...config },
+  };
+}
+
+/**
+ * 只实现消息处理流程用到的接口；dispatch 即 agent 的运行
+ */
+export function createFakeRuntime(
+  dispatch: (params: DispatchParams) => Promise<void>,
+  options: { storePath?: string; pairing?: Partial<PluginRuntime["channel"]["pairing"]> } = {},
+): PluginRuntime {
+  return {
+    config: {
+      loadConfig: () => ({}),
+    },
+    channel: {
+      routing: {
+        resolveAgentRoute: ({ peer }: { peer: { id: string } }) => ({ agentId: "main", sessionKey: `wecom:${peer.id}`, accountId: "default" }),
+      },
+      session: {
+        resolveStorePath: () => options.storePath ?? "/tmp/wecom-test-sessions.json",
+        readSessionUpdatedAt: () => undefined,
+        recordInboundSession: async () => {},
+      },
+      reply: {
+        resolveEnvelopeFormatOptions: () => ({}),
+        formatAgentEnvelope: ({ body }: { body: string }) => body,
+        finalizeInboundContext: (ctx: Record<string, unknown>) => ctx,
+        dispatchReplyWithBufferedBlockDispatcher: dispatch,
+      },
+      pairing: {
+        readAllowFromStore: async () => [],
+        upsertPairingRequest: async () => ({ code: "CODE", created: true }),
+        buildPairingReply: ({ code }: { code: string }) => code,
+        ...options.pairing,
+      },
+      text: {
+        resolveMarkdownTableMode: () => "off",
+        convertMarkdownTables: (text: string) => text,
+      },
+    },
+  } as unknown as PluginRuntime;
+}
+
+/**
+ * 交给已注册的回调处理；没有匹配的路径时返回 404
+ */
+export async function serveWebhook(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const handled = await handleWecomWebhookRequest(req, res);
+  if (!handled) {
+    res.statusCode = 404;
+    res.end("not found");
+  }
+}
+
+export async function withServer(
+  handler: (req: IncomingMessage, res: ServerResponse) => void | Promise<void>,
+  fn: (baseUrl: string) => Promise<void>,
+): Promise<void> {
+  const server = createServer((req, res) => {
+    void handler(req, res);
+  });
+  await new Promise<void>((resolve) => {
+    server.listen(0, "127.0.0.1", () => resolve());
+  });
+  const address = server.address() as AddressInfo | null;
+  if (!address) throw new Error("missing server address");
+  try {
+    await fn(`http://127.0.0.1:${address.port}`);
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
+
+export type RecordedApiRequest = { path: string; query: URLSearchParams; body: Record<string, unknown> };
+
+/**
+ * 企业微信 API 桩：记录每个请求（JSON 以外的请求体记为空对象），以 respond 的返回值作为 JSON 响应
+ * baseUrl 以 /cgi-bin 结尾，可直接作为 apiBaseUrl
+ */
+export async function withApiStub(
+  respond: (req: RecordedApiRequest) => unknown,
+  fn: (baseUrl: string, requests: RecordedApiRequest[]) => Promise<void>,
+): Promise<void> {
+  const requests: RecordedApiRequest[] = [];
+  await withServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const raw = Buffer.concat(chunks).toString("utf8");
+      const recorded: RecordedApiRequest = {
+        path: url.pathname,
+        query: url.searchParams,
+        body: raw.startsWith("{") ? (JSON.parse(raw) as Record<string, unknown>) : {},
+      };
+      requests.push(recorded);
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(respond(recorded)));
+    });
+  }, async (baseUrl) => {
+    await fn(`${baseUrl}/cgi-bin`, requests);
+  });
+}
+
+/**
+ * 以企业微信的方式加密并签名回调，返回解密后的被动回复
+ */
+export async function postCallback<T = Record<string, unknown>>(
+  baseUrl: string,
+  plain: Record<string, unknown>,
+  options: { token?: string; encodingAESKey?: string } = {},
+): Promise<T> {
+  const { token = TEST_TOKEN, encodingAESKey = TEST_ENCODING_AES_KEY } = options;
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const nonce = `nonce-${Math.random().toString(16).slice(2)}`;
+  const encrypt = encryptWecomPlaintext({ encodingAESKey, receiveId: "", plaintext: JSON.stringify(plain) });
+  const msg_signature = computeWecomMsgSignature({ token, timestamp, nonce, encrypt });
+  const response = await fetch(
+    `${baseUrl}/hook?msg_signature=${encodeURIComponent(msg_signature)}&timestamp=${encodeURIComponent(timestamp)}&nonce=${encodeURIComponent(nonce)}`,
+    {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ encrypt }),
+    },
+  );
+  const raw = await response.text();
+  if (response.status !== 200) throw new Error(`callback failed with ${response.status}: ${raw}`);
+  const json = JSON.parse(raw) as { encrypt: string };
+  return JSON.parse(decryptWecomEncrypted({ encodingAESKey, receiveId: "", encrypt: json.encrypt })) as T;
+}
+
+/**
+ * 按企业微信媒体文件的方式加密（AES-256-CBC，IV 为密钥前 16 字节，PKCS#7 按 32 字节填充），用于构造下载内容
+ */
+export function encryptWecomMedia(params: { encodingAESKey: string; data: Buffer }): Buffer {
+  const aesKey = Buffer.from(`${params.encodingAESKey}=`, "base64");
+  const pad = 32 - (params.data.length % 32);
+  const padded = Buffer.concat([params.data, Buffer.alloc(pad, pad)]);
+  const cipher = crypto.createCipheriv("aes-256-cbc", aesKey, aesKey.subarray(0, 16));
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(padded), cipher.final()]);
+}
+
+/**
+ * 轮询直到 check 返回真值，并返回该值
+ */
+export async function waitFor<T>(check: () => T, timeoutMs = 2000): Promise<Exclude<T, undefined | null | false>> {
+  const start = Date.now();
+  for (;;) {
+    const value = check();
+    if (value) return value as Exclude<T, undefined | null | false>;
+    if (Date.now() - start > timeoutMs) throw new Error("timed out waiting for condition");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
@@ -3,10 +3,21 @@ export type WecomDmConfig = {
   allowFrom?: Array<string | number>;
 };
 
+export type WecomQueueConfig = {
+  // serialize: 依次处理；merge: 等待中的消息合并为下一轮；interrupt: 新消息打断当前运行
+  mode?: "serialize" | "merge" | "interrupt";
+};
+
+// bot: 智能机器人（JSON 回调 + stream 被动回复）；app: 自建应用（XML 回调 + 主动消息回复）；
+// websocket: 智能机器人长连接（主动连出，无需公网回调地址）
+export type WecomAccountMode = "bot" | "app" | "websocket";
+
 export type WecomAccountConfig = {
   name?: string;
   enabled?: boolean;
 
+  mode?: WecomAccountMode;
+
   webhookPath?: string;
   token?: string;
   encodingAESKey?: string;
@@ -16,9 +27,33 @@ export type WecomAccountConfig = {
   corpId?: string;
   agentId?: number;
   secret?: string;
+  // Files linked in replies are downloaded and sent as file messages up to this size (MB), default 20
+  maxFileSizeMb?: number;
+  // Hosts the bot may download reply images/files from even if they resolve to private addresses,
+  // and hosts that are always refused (exact host/IP or "*.example.com")
+  downloadAllowHosts?: string[];
+  downloadDenyHosts?: string[];
+  // Prefix "(1/3)" markers when a proactive text is split into several messages, default true
+  textSequenceMarkers?: boolean;
+  // Override the WeCom API base URL (e.g. an internal proxy), default https://qyapi.weixin.qq.com/cgi-bin
+  apiBaseUrl?: string;
+
+  // Group robot webhook (群机器人): default key, plus per-chat keys keyed by chatid
+  groupWebhookKey?: string;
+  groupWebhookKeys?: Record<string, string>;
+
+  // Long-connection (websocket mode) credentials
+  botId?: string;
+  botSecret?: string;
+  websocketUrl?: string;
+  heartbeatSeconds?: number;
 
   dm?: WecomDmConfig;
+  queue?: WecomQueueConfig;
   welcomeText?: string;
+
+  // 回调防重放：timestamp 允许的时间偏差（秒），0 表示关闭校验，默认 300
+  replayWindowSeconds?: number;
 };
 
 export type WecomConfig = WecomAccountConfig & {
@@ -31,6 +66,7 @@ export type ResolvedWecomAccount = {
   name?: string;
   enabled: boolean;
   configured: boolean;
+  mode?: WecomAccountMode;
   token?: string;
   encodingAESKey?: string;
   receiveId: string;
@@ -39,6 +75,9 @@ export type ResolvedWecomAccount = {
   agentId?: number;
   secret?: string;
   outboundConfigured: boolean;
+  // Long-connection credentials
+  botId?: string;
+  botSecret?: string;
   config: WecomAccountConfig;
 };
 
@@ -52,16 +91,24 @@ export type WecomInboundBase = {
   msgtype?: string;
 };
 
+// Message being replied to (引用). Media inside quotes are encrypted like regular messages.
+export type WecomInboundQuote =
+  | { msgtype: "text"; text?: { content?: string } }
+  | { msgtype: "image"; image?: { url?: string; aeskey?: string } }
+  | { msgtype: "mixed"; mixed?: { msg_item?: WecomInboundMixedItem[] } }
+  | { msgtype: "voice"; voice?: { content?: string } }
+  | { msgtype: "file"; file?: { url?: string; aeskey?: string } };
+
 export type WecomInboundText = WecomInboundBase & {
   msgtype: "text";
   text?: { content?: string };
-  quote?: unknown;
+  quote?: WecomInboundQuote;
 };
 
 export type WecomInboundVoice = WecomInboundBase & {
   msgtype: "voice";
-  voice?: { content?: string };
-  quote?: unknown;
+  voice?: { content?: string; media_id?: string; format?: string };
+  quote?: WecomInboundQuote;
 };
 
 export type WecomInboundStreamRefresh = WecomInboundBase & {
@@ -78,20 +125,68 @@ export type WecomInboundEvent = WecomInboundBase & {
   };
 };
 
+// Template card interaction (模板卡片事件): a button click or a vote / multiple-choice submission
+export type WecomTemplateCardEvent = {
+  card_type?: string;
+  event_key?: string;
+  task_id?: string;
+  // Only self-built app callbacks carry a response_code, used to update the clicked card
+  response_code?: string;
+  selected_items?: {
+    selected_item?: Array<{ question_key?: string; option_ids?: { option_id?: string[] } }>;
+  };
+};
+
+export type WecomInboundTemplateCardEvent = WecomInboundBase & {
+  msgtype: "event";
+  create_time?: number;
+  event: { eventtype: "template_card_event"; template_card_event?: WecomTemplateCardEvent };
+};
+
+// Answer feedback (用户反馈事件): the id is the feedback.id set on the first stream reply
+export type WecomFeedbackEvent = {
+  id?: string;
+  type?: number; // 1: accurate (thumbs up), 2: inaccurate (thumbs down), 3: feedback cancelled
+  content?: string;
+  inaccurate_reason_list?: number[];
+};
+
+export type WecomInboundFeedbackEvent = WecomInboundBase & {
+  msgtype: "event";
+  create_time?: number;
+  event: { eventtype: "feedback_event"; feedback_event?: WecomFeedbackEvent };
+};
+
 export type WecomInboundImage = WecomInboundBase & {
   msgtype: "image";
-  image?: { url?: string };
+  // aeskey: long-connection media are encrypted with a per-message key instead of encodingAESKey
+  image?: { url?: string; media_id?: string; aeskey?: string };
+};
+
+export type WecomInboundVideo = WecomInboundBase & {
+  msgtype: "video";
+  video?: { media_id?: string; thumb_media_id?: string };
+};
+
+export type WecomInboundLocation = WecomInboundBase & {
+  msgtype: "location";
+  location?: { latitude?: number; longitude?: number; scale?: number; label?: string };
+};
+
+export type WecomInboundLink = WecomInboundBase & {
+  msgtype: "link";
+  link?: { title?: string; description?: string; url?: string; pic_url?: string };
 };
 
 export type WecomInboundFile = WecomInboundBase & {
   msgtype: "file";
-  file?: { url?: string };
+  file?: { url?: string; aeskey?: string };
 };
 
 export type WecomInboundMixedItem = {
   msgtype?: string;
   text?: { content?: string };
-  image?: { url?: string };
+  image?: { url?: string; aeskey?: string };
 };
 
 export type WecomInboundMixed = WecomInboundBase & {
@@ -104,8 +199,75 @@ export type WecomInboundMessage =
   | WecomInboundVoice
   | WecomInboundStreamRefresh
   | WecomInboundEvent
+  | WecomInboundTemplateCardEvent
+  | WecomInboundFeedbackEvent
   | WecomInboundImage
+  | WecomInboundVideo
+  | WecomInboundLocation
+  | WecomInboundLink
   | WecomInboundFile
   | WecomInboundMixed
   | (WecomInboundBase & Record<string, unknown>);
 
+
+// Template cards (模板卡片) the agent can reply with.
+// @see https://developer.work.weixin.qq.com/document/path/101032
+export type WecomTemplateCardType = "text_notice" | "button_interaction" | "vote_interaction" | "multiple_interaction";
+
+export type WecomTemplateCardAction = {
+  type: 0 | 1 | 2; // 0: none, 1: open url, 2: open mini program
+  url?: string;
+  appid?: string;
+  pagepath?: string;
+};
+
+export type WecomTemplateCardBase = {
+  card_type: WecomTemplateCardType;
+  source?: { icon_url?: string; desc?: string; desc_color?: number };
+  main_title?: { title?: string; desc?: string };
+  emphasis_content?: { title?: string; desc?: string };
+  sub_title_text?: string;
+  horizontal_content_list?: Array<{ keyname: string; value?: string; type?: 0 | 1; url?: string }>;
+  jump_list?: Array<{ type: 0 | 1 | 2; title: string; url?: string; appid?: string; pagepath?: string }>;
+  card_action?: WecomTemplateCardAction;
+  // Identifies the card in interaction callbacks; generated when omitted
+  task_id?: string;
+  // When updating a clicked card: replaces the buttons with a greyed-out, unclickable label
+  replace_text?: string;
+};
+
+export type WecomTextNoticeCard = WecomTemplateCardBase & {
+  card_type: "text_notice";
+};
+
+export type WecomButtonInteractionCard = WecomTemplateCardBase & {
+  card_type: "button_interaction";
+  button_list: Array<{ text: string; key: string; style?: number }>;
+};
+
+export type WecomVoteInteractionCard = WecomTemplateCardBase & {
+  card_type: "vote_interaction";
+  checkbox: {
+    question_key: string;
+    option_list: Array<{ id: string; text: string; is_checked?: boolean }>;
+    mode?: 0 | 1; // 0: single choice, 1: multiple choice
+  };
+  submit_button: { text: string; key: string };
+};
+
+export type WecomMultipleInteractionCard = WecomTemplateCardBase & {
+  card_type: "multiple_interaction";
+  select_list: Array<{
+    question_key: string;
+    title?: string;
+    selected_id?: string;
+    option_list: Array<{ id: string; text: string }>;
+  }>;
+  submit_button: { text: string; key: string };
+};
+
+export type WecomTemplateCard =
+  | WecomTextNoticeCard
+  | WecomButtonInteractionCard
+  | WecomVoteInteractionCard
+  | WecomMultipleInteractionCard;
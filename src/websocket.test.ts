@@ -0,0 +1,212 @@
+import type { AddressInfo } from "node:net";
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { WebSocketServer, type WebSocket } from "ws";
+
+import type { OpenclawConfig } from "openclaw/plugin-sdk";
+
+import type { ResolvedWecomAccount } from "./types.js";
+import { setWecomRuntime } from "./runtime.js";
+import { createFakeRuntime, waitFor } from "./test-helpers.js";
+import { startWecomWebsocket, type WecomWebsocketHandle } from "./websocket.js";
+
+type Frame = {
+  cmd?: string;
+  headers?: { req_id?: string };
+  body?: Record<string, unknown>;
+};
+
+async function withWsServer(fn: (url: string, server: WebSocketServer) => Promise<void>) {
+  const server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+  await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+  const address = server.address() as AddressInfo;
+  try {
+    await fn(`ws://127.0.0.1:${address.port}`, server);
+  } finally {
+    for (const client of server.clients) client.terminate();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
+
+function collectFrames(socket: WebSocket): Frame[] {
+  const frames: Frame[] = [];
+  socket.on("message", (data) => {
+    frames.push(JSON.parse(data.toString()) as Frame);
+  });
+  return frames;
+}
+
+// 长连接每 500ms 推送一次 stream，留出更长的等待时间
+const WAIT_TIMEOUT_MS = 3000;
+
+describe("startWecomWebsocket", () => {
+  let handle: WecomWebsocketHandle | null = null;
+
+  afterEach(() => {
+    handle?.stop();
+    handle = null;
+  });
+
+  function start(url: string) {
+    const account: ResolvedWecomAccount = {
+      accountId: "default",
+      enabled: true,
+      configured: true,
+      mode: "websocket",
+      receiveId: "",
+      outboundConfigured: false,
+      botId: "BOT-ID",
+      botSecret: "BOT-SECRET",
+      config: { mode: "websocket", websocketUrl: url, dm: { policy: "open" } },
+    };
+    handle = startWecomWebsocket({ account, config: {} as OpenclawConfig, runtime: {} });
+  }
+
+  it("subscribes and streams agent replies for the callback req_id", async () => {
+    setWecomRuntime(createFakeRuntime(async ({ dispatcherOptions }) => {
+      await dispatcherOptions.deliver({ text: "hello over websocket" });
+    }));
+
+    await withWsServer(async (url, server) => {
+      const connected = new Promise<WebSocket>((resolve) => server.once("connection", resolve));
+      start(url);
+      const socket = await connected;
+      const frames = collectFrames(socket);
+
+      await waitFor(() => frames.length === 1, WAIT_TIMEOUT_MS);
+      const subscribe = frames[0]!;
+      expect(subscribe.cmd).toBe("aibot_subscribe");
+      expect(subscribe.body).toEqual({ bot_id: "BOT-ID", secret: "BOT-SECRET" });
+      socket.send(JSON.stringify({ headers: { req_id: subscribe.headers?.req_id }, errcode: 0, errmsg: "ok" }));
+
+      socket.send(JSON.stringify({
+        cmd: "aibot_msg_callback",
+        headers: { req_id: "REQ-1" },
+        body: {
+          msgid: "WS-MSG-1",
+          chattype: "single",
+          from: { userid: "alice" },
+          msgtype: "text",
+          text: { content: "hi" },
+        },
+      }));
+
+      await waitFor(() => frames.some((frame) => frame.body?.stream && (frame.body.stream as { finish: boolean }).finish), WAIT_TIMEOUT_MS);
+      const replies = frames.filter((frame) => frame.cmd === "aibot_respond_msg");
+      expect(replies.every((frame) => frame.headers?.req_id === "REQ-1")).toBe(true);
+      expect(replies.at(-1)!.body).toMatchObject({
+        msgtype: "stream",
+        stream: { finish: true, content: "hello over websocket" },
+      });
+    });
+  });
+
+  it("answers template card clicks with the update command", async () => {
+    const card = {
+      card_type: "button_interaction",
+      task_id: "ws-card-1",
+      main_title: { title: "审批" },
+      button_list: [{ text: "同意", key: "approve" }],
+    };
+    setWecomRuntime(createFakeRuntime(async ({ ctx, dispatcherOptions }) => {
+      if (ctx.RawBody === "approve?") {
+        await dispatcherOptions.deliver({ text: `\`\`\`wecom-card\n${JSON.stringify(card)}\n\`\`\`` });
+      }
+    }));
+
+    await withWsServer(async (url, server) => {
+      const connected = new Promise<WebSocket>((resolve) => server.once("connection", resolve));
+      start(url);
+      const socket = await connected;
+      const frames = collectFrames(socket);
+      await waitFor(() => frames.length === 1, WAIT_TIMEOUT_MS);
+
+      socket.send(JSON.stringify({
+        cmd: "aibot_msg_callback",
+        headers: { req_id: "REQ-CARD" },
+        body: { msgid: "WS-CARD-1", chattype: "single", from: { userid: "bob" }, msgtype: "text", text: { content: "approve?" } },
+      }));
+      await waitFor(() => frames.some((frame) => frame.body?.msgtype === "stream_with_template_card"), WAIT_TIMEOUT_MS);
+
+      socket.send(JSON.stringify({
+        cmd: "aibot_event_callback",
+        headers: { req_id: "REQ-CLICK" },
+        body: {
+          msgid: "WS-CLICK-1",
+          chattype: "single",
+          from: { userid: "bob" },
+          msgtype: "event",
+          event: {
+            eventtype: "template_card_event",
+            template_card_event: { card_type: "button_interaction", event_key: "approve", task_id: "ws-card-1" },
+          },
+        },
+      }));
+      await waitFor(() => frames.some((frame) => frame.headers?.req_id === "REQ-CLICK"), WAIT_TIMEOUT_MS);
+      const update = frames.find((frame) => frame.headers?.req_id === "REQ-CLICK")!;
+      expect(update.cmd).toBe("aibot_respond_update_msg");
+      expect(update.body).toEqual({
+        response_type: "update_template_card",
+        template_card: { ...card, replace_text: "已处理" },
+      });
+    });
+  });
+
+  it("expires old streams and their msgid dedupe without any webhook request", async () => {
+    const runs: string[] = [];
+    setWecomRuntime(createFakeRuntime(async ({ ctx, dispatcherOptions }) => {
+      runs.push(String(ctx.RawBody));
+      await dispatcherOptions.deliver({ text: "done" });
+    }));
+
+    await withWsServer(async (url, server) => {
+      const connected = new Promise<WebSocket>((resolve) => server.once("connection", resolve));
+      start(url);
+      const socket = await connected;
+      const frames = collectFrames(socket);
+      await waitFor(() => frames.length === 1, WAIT_TIMEOUT_MS);
+
+      const send = (reqId: string) => {
+        socket.send(JSON.stringify({
+          cmd: "aibot_msg_callback",
+          headers: { req_id: reqId },
+          body: { msgid: "WS-OLD-1", chattype: "single", from: { userid: "carol" }, msgtype: "text", text: { content: "hi" } },
+        }));
+      };
+      const streamIdFor = (reqId: string) =>
+        (frames.find((frame) => frame.headers?.req_id === reqId)?.body?.stream as { id: string } | undefined)?.id;
+
+      send("REQ-OLD-1");
+      await waitFor(() => frames.some((frame) => frame.headers?.req_id === "REQ-OLD-1" && (frame.body?.stream as { finish?: boolean }).finish), WAIT_TIMEOUT_MS);
+      send("REQ-OLD-2");
+      await waitFor(() => streamIdFor("REQ-OLD-2"), WAIT_TIMEOUT_MS);
+      expect(streamIdFor("REQ-OLD-2")).toBe(streamIdFor("REQ-OLD-1"));
+
+      // 只推进时钟：过期清理由每 5 秒一次的超时检查完成
+      vi.useFakeTimers({ toFake: ["Date"] });
+      try {
+        vi.setSystemTime(Date.now() + 11 * 60 * 1000);
+        await new Promise((resolve) => setTimeout(resolve, 5_500));
+        send("REQ-OLD-3");
+        await waitFor(() => streamIdFor("REQ-OLD-3"), WAIT_TIMEOUT_MS);
+      } finally {
+        vi.useRealTimers();
+      }
+      expect(streamIdFor("REQ-OLD-3")).not.toBe(streamIdFor("REQ-OLD-1"));
+      await waitFor(() => runs.length === 2, WAIT_TIMEOUT_MS);
+    });
+  }, 15_000);
+
+  it("reconnects after the server drops the connection", async () => {
+    setWecomRuntime(createFakeRuntime(async () => {}));
+    await withWsServer(async (url, server) => {
+      let connections = 0;
+      server.on("connection", (socket) => {
+        connections += 1;
+        if (connections === 1) socket.close();
+      });
+      start(url);
+      await waitFor(() => connections === 2, WAIT_TIMEOUT_MS);
+    });
+  });
+});
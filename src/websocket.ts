@@ -0,0 +1,235 @@
+/**
+ * 智能机器人长连接模式
+ * 机器人主动连接企业微信 WebSocket 服务并订阅消息，无需公网可访问的回调地址。
+ * 收到的消息复用回调模式的处理流程，stream 回复通过同一 req_id 持续推送，直到 finish
+ */
+
+import crypto from "node:crypto";
+
+import WebSocket from "ws";
+import type { OpenclawConfig } from "openclaw/plugin-sdk";
+
+import type { ResolvedWecomAccount, WecomInboundMessage } from "./types.js";
+import {
+  dispatchWecomInboundMessage,
+  publishFeedbackCounts,
+  type WecomRuntimeEnv,
+  type WecomWebhookTarget,
+} from "./monitor.js";
+import { getWecomRuntime } from "./runtime.js";
+
+const DEFAULT_WEBSOCKET_URL = "wss://openws.work.weixin.qq.com";
+const DEFAULT_HEARTBEAT_SECONDS = 30;
+// 连续多少个心跳周期没有收到任何数据时认为连接已断开
+const HEARTBEAT_MISSED_LIMIT = 2;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 60 * 1000;
+// stream 推送间隔：相当于回调模式下企业微信的刷新请求
+const STREAM_PUSH_INTERVAL_MS = 500;
+
+type WecomWsFrame = {
+  cmd?: string;
+  headers?: { req_id?: string };
+  body?: unknown;
+  errcode?: number;
+  errmsg?: string;
+};
+
+export type WecomWebsocketHandle = {
+  stop: () => void;
+};
+
+function createReqId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * 建立长连接并在断开后按指数退避自动重连，直到调用 stop
+ */
+export function startWecomWebsocket(params: {
+  account: ResolvedWecomAccount;
+  config: OpenclawConfig;
+  runtime: WecomRuntimeEnv;
+  statusSink?: WecomWebhookTarget["statusSink"];
+  feedbackLog?: WecomWebhookTarget["feedbackLog"];
+}): WecomWebsocketHandle {
+  const { account, runtime } = params;
+  const url = account.config.websocketUrl?.trim() || DEFAULT_WEBSOCKET_URL;
+  const heartbeatMs = (account.config.heartbeatSeconds ?? DEFAULT_HEARTBEAT_SECONDS) * 1000;
+  const target: WecomWebhookTarget = {
+    account,
+    config: params.config,
+    runtime,
+    // 账号启动时运行时已就绪（状态目录同样由它解析）
+    core: getWecomRuntime(),
+    path: "",
+    statusSink: params.statusSink,
+    feedbackLog: params.feedbackLog,
+  };
+  publishFeedbackCounts(target);
+
+  let socket: WebSocket | null = null;
+  let stopped = false;
+  let attempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  let lastReceivedAt = 0;
+  const pushTimers = new Set<ReturnType<typeof setInterval>>();
+
+  const send = (ws: WebSocket, frame: WecomWsFrame) => {
+    if (ws.readyState !== WebSocket.OPEN) return;
+    ws.send(JSON.stringify(frame));
+  };
+
+  const clearConnectionTimers = () => {
+    if (heartbeatTimer) clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+    for (const timer of pushTimers) clearInterval(timer);
+    pushTimers.clear();
+  };
+
+  const scheduleReconnect = () => {
+    if (stopped || reconnectTimer) return;
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempt, RECONNECT_MAX_MS);
+    attempt += 1;
+    runtime.log?.(`[${account.accountId}] wecom websocket reconnecting in ${delay}ms`);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  /**
+   * 持续推送 stream 的最新状态，直到 finish 或连接断开
+   */
+  const pushStreamUpdates = (ws: WebSocket, reqId: string, streamId: string, lastSent: string) => {
+    let previous = lastSent;
+    let busy = false;
+    const timer = setInterval(() => {
+      if (busy) return;
+      busy = true;
+      const refresh: WecomInboundMessage = { msgtype: "stream", stream: { id: streamId } };
+      dispatchWecomInboundMessage(target, refresh)
+        .then((reply) => {
+          const serialized = JSON.stringify(reply);
+          const finished = (reply as { stream?: { finish?: boolean } }).stream?.finish === true;
+          if (serialized !== previous) {
+            previous = serialized;
+            send(ws, { cmd: "aibot_respond_msg", headers: { req_id: reqId }, body: reply });
+          }
+          if (finished) {
+            clearInterval(timer);
+            pushTimers.delete(timer);
+          }
+        })
+        .catch((err) => {
+          runtime.error?.(`[${account.accountId}] wecom websocket stream push failed: ${String(err)}`);
+        })
+        .finally(() => {
+          busy = false;
+        });
+    }, STREAM_PUSH_INTERVAL_MS);
+    pushTimers.add(timer);
+  };
+
+  const handleCallback = async (ws: WebSocket, frame: WecomWsFrame) => {
+    const reqId = frame.headers?.req_id ?? "";
+    const msg = (frame.body && typeof frame.body === "object" ? frame.body : {}) as WecomInboundMessage;
+    target.statusSink?.({ lastInboundAt: Date.now() });
+
+    const reply = await dispatchWecomInboundMessage(target, msg);
+    if (!reply || Object.keys(reply).length === 0) return;
+
+    if (frame.cmd === "aibot_event_callback") {
+      // 模板卡片点击后的卡片更新与欢迎语使用不同的回复指令
+      const isCardUpdate = (reply as { response_type?: string }).response_type === "update_template_card";
+      send(ws, {
+        cmd: isCardUpdate ? "aibot_respond_update_msg" : "aibot_respond_welcome_msg",
+        headers: { req_id: reqId },
+        body: reply,
+      });
+      return;
+    }
+
+    send(ws, { cmd: "aibot_respond_msg", headers: { req_id: reqId }, body: reply });
+    const stream = (reply as { stream?: { id?: string; finish?: boolean } }).stream;
+    if (stream?.id && !stream.finish) {
+      pushStreamUpdates(ws, reqId, stream.id, JSON.stringify(reply));
+    }
+  };
+
+  const connect = () => {
+    if (stopped) return;
+    const ws = new WebSocket(url);
+    socket = ws;
+    const subscribeReqId = createReqId();
+
+    ws.on("open", () => {
+      lastReceivedAt = Date.now();
+      send(ws, {
+        cmd: "aibot_subscribe",
+        headers: { req_id: subscribeReqId },
+        body: { bot_id: account.botId, secret: account.botSecret },
+      });
+      heartbeatTimer = setInterval(() => {
+        if (Date.now() - lastReceivedAt > heartbeatMs * HEARTBEAT_MISSED_LIMIT) {
+          runtime.error?.(`[${account.accountId}] wecom websocket heartbeat timed out`);
+          ws.terminate();
+          return;
+        }
+        send(ws, { cmd: "ping", headers: { req_id: createReqId() } });
+      }, heartbeatMs);
+    });
+
+    ws.on("message", (data) => {
+      lastReceivedAt = Date.now();
+      let frame: WecomWsFrame;
+      try {
+        frame = JSON.parse(data.toString()) as WecomWsFrame;
+      } catch {
+        runtime.error?.(`[${account.accountId}] wecom websocket received invalid frame`);
+        return;
+      }
+
+      if (frame.cmd === "aibot_msg_callback" || frame.cmd === "aibot_event_callback") {
+        handleCallback(ws, frame).catch((err) => {
+          runtime.error?.(`[${account.accountId}] wecom websocket message failed: ${String(err)}`);
+        });
+        return;
+      }
+
+      if (frame.headers?.req_id === subscribeReqId) {
+        if (frame.errcode && frame.errcode !== 0) {
+          runtime.error?.(`[${account.accountId}] wecom websocket subscribe failed: ${frame.errcode} ${frame.errmsg ?? ""}`);
+          ws.close();
+          return;
+        }
+        attempt = 0;
+        runtime.log?.(`[${account.accountId}] wecom websocket subscribed (${url})`);
+      }
+    });
+
+    ws.on("error", (err) => {
+      runtime.error?.(`[${account.accountId}] wecom websocket error: ${String(err)}`);
+    });
+
+    ws.on("close", () => {
+      if (socket === ws) socket = null;
+      clearConnectionTimers();
+      scheduleReconnect();
+    });
+  };
+
+  connect();
+
+  return {
+    stop: () => {
+      stopped = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      clearConnectionTimers();
+      socket?.close();
+      socket = null;
+    },
+  };
+}